@@ -0,0 +1,71 @@
+// Keeps the calculator working offline. Pages are fetched from the network
+// when there is one and from the cache when there isn't; build assets never
+// change under the same URL, so they are served from the cache first.
+const CACHE_NAME = 'buy-vs-commute-v1';
+const PAGES = ['/', '/report'];
+const STATIC_FILES = ['/manifest.webmanifest', '/icon.svg'];
+
+// The scripts and styles a page loads, so it also works offline on the first visit
+// (paths inside inline scripts end at an escaped quote, hence the backslash)
+const assetsIn = (html) => [...new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) ?? [])];
+
+// Each file is cached on its own, so one that fails doesn't stop the rest or the install
+const addEach = (cache, urls) => Promise.all(urls.map((url) => cache.add(url).catch(() => undefined)));
+
+const precache = async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await addEach(cache, STATIC_FILES);
+    await Promise.all(PAGES.map(async (page) => {
+        try {
+            const response = await fetch(page);
+            if (!response.ok) return;
+            await cache.put(page, response.clone());
+            await addEach(cache, assetsIn(await response.text()));
+        } catch {
+            // The page is cached on the next visit instead
+        }
+    }));
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const networkFirst = async (request) => {
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+    } catch {
+        const cached = await cache.match(request);
+        if (cached || request.mode !== 'navigate') return cached ?? Response.error();
+        // Pages are precached without their query, which only carries shared inputs
+        return (await cache.match(request, { ignoreSearch: true })) ?? (await cache.match('/')) ?? Response.error();
+    }
+};
+
+const cacheFirst = async (request) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(CACHE_NAME)).put(request, response.clone());
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    // The calculation API needs the server, so it is left to fail as usual
+    if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+    event.respondWith(url.pathname.startsWith('/_next/static/') ? cacheFirst(request) : networkFirst(request));
+});
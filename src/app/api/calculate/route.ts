@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import {
+    CalculationResult,
+    PayloadErrors,
+    calculateCosts,
+    parseFormValues,
+    parseScenarioPayload,
+    validateForm,
+} from '@/lib/calculator';
+
+const MAX_BATCH_SIZE = 100;
+
+type ScenarioOutcome =
+    | { ok: true; result: CalculationResult }
+    | { ok: false; errors: PayloadErrors };
+
+const evaluateScenario = (payload: unknown): ScenarioOutcome => {
+    const { values, errors: payloadErrors } = parseScenarioPayload(payload);
+    const errors = { ...validateForm(values), ...payloadErrors };
+    if (Object.keys(errors).length > 0) {
+        return { ok: false, errors };
+    }
+    return { ok: true, result: calculateCosts(parseFormValues(values)) };
+};
+
+/**
+ * Accepts one scenario object, or an array of them for batch runs, with the
+ * same fields as the calculator form. Responds with the full breakdown for
+ * each scenario, or field-level errors and a 400 if any scenario is invalid.
+ */
+export async function POST(request: Request) {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    if (!Array.isArray(body)) {
+        const outcome = evaluateScenario(body);
+        return outcome.ok
+            ? NextResponse.json({ result: outcome.result })
+            : NextResponse.json({ error: 'Validation failed', errors: outcome.errors }, { status: 400 });
+    }
+
+    if (body.length === 0 || body.length > MAX_BATCH_SIZE) {
+        return NextResponse.json(
+            { error: `Batch must contain between 1 and ${MAX_BATCH_SIZE} scenarios` },
+            { status: 400 }
+        );
+    }
+
+    const results: CalculationResult[] = [];
+    const invalid: { index: number; errors: PayloadErrors }[] = [];
+    body.map(evaluateScenario).forEach((outcome, index) => {
+        if (outcome.ok) {
+            results.push(outcome.result);
+        } else {
+            invalid.push({ index, errors: outcome.errors });
+        }
+    });
+
+    if (invalid.length > 0) {
+        return NextResponse.json({ error: 'Validation failed', scenarios: invalid }, { status: 400 });
+    }
+
+    return NextResponse.json({ results });
+}
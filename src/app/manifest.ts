@@ -0,0 +1,17 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Buy vs Commute Calculator',
+    short_name: 'Buy vs Commute',
+    description: 'Compare the costs of buying a car versus using public transport',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f3f4f6',
+    theme_color: '#2563eb',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+  };
+}
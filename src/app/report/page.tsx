@@ -0,0 +1,9 @@
+import CalculationReport from '@/components/calculation-report';
+
+export default function Report() {
+  return (
+    <main className="min-h-screen bg-gray-100 py-8 px-3 sm:px-4 print:bg-white print:p-0">
+      <CalculationReport />
+    </main>
+  );
+}
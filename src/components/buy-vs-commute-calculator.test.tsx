@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { axe } from 'vitest-axe';
+import { addHistoryEntry } from '@/lib/history';
+import BuyVsCommuteCalculator from './buy-vs-commute-calculator';
+
+// jsdom has no IndexedDB, so only the calls to store a run are checked
+vi.mock('@/lib/history', async importOriginal => ({
+    ...await importOriginal<typeof import('@/lib/history')>(),
+    addHistoryEntry: vi.fn(() => Promise.resolve()),
+}));
+
+const SHARED_LINK = '?carPrice=1000000&resaleValue=400000&resaleYears=5&fuelEfficiency=15&fuelPrice=100' +
+    '&insuranceCosts=24000&distanceToWork=20&workingDaysPerMonth=22&publicTransportCosts=3000';
+
+beforeAll(() => {
+    // Charts size themselves with ResizeObserver, which jsdom lacks
+    globalThis.ResizeObserver = class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+    };
+});
+
+afterEach(() => {
+    cleanup();
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    vi.mocked(addHistoryEntry).mockClear();
+});
+
+describe('BuyVsCommuteCalculator', () => {
+    it('renders the empty form without accessibility violations', async () => {
+        const { container } = render(<BuyVsCommuteCalculator />);
+
+        expect(screen.getByRole('textbox', { name: /Car Price/ })).toBeTruthy();
+        expect((await axe(container)).violations).toEqual([]);
+    }, 30000);
+
+    it('announces how many fields need attention and marks them invalid', async () => {
+        render(<BuyVsCommuteCalculator />);
+        fireEvent.click(screen.getByRole('button', { name: /Calculate Costs/ }));
+
+        const status = await screen.findByText(/need(s)? attention before calculating/);
+        expect(status.getAttribute('role')).toBe('status');
+        expect(status.getAttribute('aria-live')).toBe('polite');
+        const invalid = screen.getAllByRole('textbox').filter(input => input.getAttribute('aria-invalid') === 'true');
+        expect(status.textContent).toMatch(new RegExp(`^${invalid.length} field`));
+    });
+
+    it('announces the result and shows it without accessibility violations', async () => {
+        window.history.replaceState(null, '', `/${SHARED_LINK}`);
+        const { container } = render(<BuyVsCommuteCalculator />);
+
+        const status = await screen.findByText(/costs about .* a month/);
+        expect(status.getAttribute('role')).toBe('status');
+        expect(status.textContent).toMatch(/works out cheaper by about/);
+        expect(screen.getAllByRole('table', { name: /./ }).length).toBeGreaterThan(0);
+        expect((await axe(container)).violations).toEqual([]);
+    }, 30000);
+
+    it('stores a calculation opened from a shared link in the history', async () => {
+        window.history.replaceState(null, '', `/${SHARED_LINK}`);
+        render(<BuyVsCommuteCalculator />);
+
+        await screen.findByText(/costs about .* a month/);
+        expect(addHistoryEntry).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(addHistoryEntry).mock.calls[0][0]).toMatchObject({ carPrice: '1000000', distanceToWork: '20' });
+    }, 30000);
+});
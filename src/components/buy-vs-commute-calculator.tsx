@@ -1,90 +1,247 @@
 'use client';
 
-import { useState } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, Area, AreaChart } from 'recharts';
-import { Popover } from '@headlessui/react';
-import { FaCar, FaBus, FaLeaf, FaInfoCircle, FaRupeeSign, FaChartBar, FaCalculator, FaChartLine, FaChartArea } from 'react-icons/fa';
-import numberToWords from 'number-to-words';
-
-interface CalculationResult {
-    totalCarCost: number;
-    totalCommuteCost: number;
-    monthlySavings: number;
-    yearlySavings: number;
-    fuelCosts: number;
-    maintenanceCost: number;
-    insuranceCost: number;
-    depreciationCost: number;
-    yearlyEmissions: number;
-}
-
-interface FormErrors {
-    [key: string]: string;
-}
-
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042'];
-
-const tooltipContent = {
-    carPrice: "The purchase price of the vehicle including taxes and registration",
-    fuelEfficiency: "Average kilometers traveled per liter of fuel",
-    fuelPrice: "Current fuel price per liter",
+import { useEffect, useState } from 'react';
+import { FaCalculator, FaLink, FaFileCsv, FaFileCode, FaPrint } from 'react-icons/fa';
+import {
+    CURRENCIES,
+    CalculationResult,
+    CalculatorField,
+    CalculatorFormValues,
+    CalculatorInput,
+    CommuteLegField,
+    CommuteLegValues,
+    DEPRECIATION_MODELS,
+    DepreciationModel,
+    EMPTY_FORM_VALUES,
+    FormErrors,
+    GoalSeekResult,
+    LocaleSettings as Locale,
+    OWNERSHIP_MODELS,
+    OwnershipModel,
+    POWERTRAINS,
+    Powertrain,
+    SETTING_FIELDS,
+    TAX_PROFILES,
+    TaxProfile,
+    UNIT_SYSTEMS,
+    VEHICLE_SEGMENTS,
+    VehicleSegment,
+    calculateCosts as runCalculation,
+    isValid,
+    isFieldUsedByOwnership,
+    getRequiredFields,
+    parseFormValues,
+    summarizeResult,
+    toFormValues,
+    validateCommuteLegField,
+    validateField,
+    validateForm as getFormErrors,
+} from '@/lib/calculator';
+import { buildCsvExport, buildJsonExport, downloadFile } from '@/lib/export';
+import { ChartType, ViewMode, decodeShareState, encodeShareState } from '@/lib/share-state';
+import { loadDraft, saveDraft } from '@/lib/draft';
+import { HistoryEntry, addHistoryEntry } from '@/lib/history';
+import { Scenario, loadScenarios, saveScenarios } from '@/lib/scenarios';
+import ScenarioManager from '@/components/scenario-manager';
+import InputField from '@/components/input-field';
+import HouseholdPlanner from '@/components/household-planner';
+import CalculationHistory from '@/components/calculation-history';
+import CommuteBuilder from '@/components/commute-builder';
+import SensitivityAnalysis from '@/components/sensitivity-analysis';
+import MonteCarloPanel from '@/components/monte-carlo-panel';
+import GoalSeekPanel from '@/components/goal-seek-panel';
+import HoldingPeriods from '@/components/holding-periods';
+import LocaleSettings from '@/components/locale-settings';
+import PresetLibrary from '@/components/preset-library';
+import TripImport from '@/components/trip-import';
+import OnRoadPriceBuilder from '@/components/on-road-price-builder';
+import ResultCards from '@/components/result-cards';
+import ResultCharts from '@/components/result-charts';
+
+const tooltipContent: Record<CalculatorField, string> = {
+    carPrice: "The on-road price of the vehicle including GST, road tax and registration. Use the on-road price builder to work it out",
+    downPayment: "Amount paid upfront; the rest of the car price is financed with a loan",
+    loanTenure: "Number of years over which the car loan is repaid. Leave empty if you pay the full price upfront",
+    interestRate: "Annual interest rate charged on the car loan",
+    fuelEfficiency: "Average distance traveled per liter or gallon of fuel, or per kg for CNG. For a hybrid, use its own rating when running on fuel",
+    fuelPrice: "Current fuel price per liter or gallon, or per kg for CNG",
+    evConsumption: "Electricity used per 100 km or miles, as shown on the car's trip computer",
+    homeChargingTariff: "Electricity tariff at home per unit (kWh)",
+    publicChargingTariff: "Price per kWh at public fast chargers",
+    homeChargingShare: "Share of charging done at home; the rest is charged at public chargers",
+    chargerInstallCost: "One-time cost of buying and installing a home charger",
+    gridCarbonIntensity: "CO2 emitted per kWh of grid electricity. India's grid averages about 0.71 kg/kWh",
+    electricShare: "For a plug-in hybrid, the share of the distance driven on charged battery power. Leave empty for a self-charging hybrid",
     maintenanceCosts: "Expected monthly maintenance costs including servicing, repairs, etc.",
+    carAgeYears: "How old the used car is when you buy it",
+    repairCostPerYearOfAge: "Expected yearly repair bill for each year of the car's age, e.g. 3,000 means 15,000 a year for a five-year-old car",
+    subscriptionFee: "Monthly subscription or lease fee, which usually includes insurance and maintenance",
+    subscriptionUpfront: "One-off joining fee or non-refundable deposit for the subscription or lease",
+    sharingHourlyRate: "Hourly charge for booking a shared or rental car",
+    sharingHoursPerMonth: "Hours you expect to book the car each month",
+    sharingDistanceRate: "Charge per km or mile driven on top of the hourly rate, excluding fuel",
+    maintenancePerDistance: "Wear that grows with distance, such as tyres, brakes and oil changes, per km or mile driven",
+    serviceIntervalDistance: "Distance between scheduled services in the owner's manual, e.g. 10,000 km",
+    serviceIntervalMonths: "Months between scheduled services if the distance isn't reached first, e.g. 12",
+    serviceCost: "Typical bill for a scheduled service, including oil, filters and labour",
+    tyreLife: "Distance a set of tyres lasts, e.g. 40,000 km",
+    tyreCost: "Cost of replacing all the tyres",
+    brakeLife: "Distance a set of brake pads lasts, e.g. 30,000 km",
+    brakeCost: "Cost of replacing the brake pads",
+    batteryLifeYears: "Years a 12V battery lasts, usually 3 to 5",
+    batteryCost: "Cost of a replacement 12V battery",
+    warrantyYears: "Years of manufacturer or extended warranty from when the car was new",
+    postWarrantyIncrease: "How much more each service and part costs once repairs are no longer covered by the warranty",
     insuranceCosts: "Annual insurance premium for the vehicle",
+    parkingCosts: "Monthly parking charges at work, home or both",
+    tollCosts: "Monthly toll charges on your commute route",
+    trafficFines: "Average monthly spend on traffic fines and challans",
     distanceToWork: "One-way distance to your workplace",
-    workingDaysPerMonth: "Number of days you commute to work per month",
+    workingDaysPerMonth: "Number of working days per month, including any days worked from home",
+    carDaysPerWeek: "Days a week you would drive to work if you owned the car. Leave empty to drive every day of a five-day week",
+    transitDaysPerWeek: "Days a week you would still take public transport if you owned the car. Without a car these are public transport days too",
+    wfhDaysPerWeek: "Days a week you work from home and don't commute at all",
+    leisureDistance: "Distance driven each month outside the commute, such as weekend trips and errands",
     resaleValue: "Expected resale value after planned usage period",
+    depreciationRate: "Share of the car's remaining value lost each year, e.g. 15%",
     resaleYears: "Number of years after which you plan to sell the vehicle",
-    publicTransportCosts: "Monthly expenses on public transportation"
+    depreciationPerDistance: "Resale value lost for every km or mile driven, on top of the value for the car's age",
+    publicTransportCosts: "Monthly expenses on public transportation",
+    cabDaysPerMonth: "Days per month you take a cab instead of your usual commute, e.g. when it rains",
+    cabFarePerDay: "Round-trip cab fare on those days",
+    carTravelMinutes: "One-way door-to-door travel time by car, including finding parking",
+    transitTravelMinutes: "One-way door-to-door travel time by public transport, including walking and waiting",
+    valueOfTime: "What an hour of your time is worth to you, e.g. your hourly take-home pay",
+    transitProductiveShare: "Share of public transport time you can use productively, e.g. reading or working",
+    fuelInflation: "Expected yearly increase in fuel prices",
+    transitInflation: "Expected yearly increase in public transport fares",
+    maintenanceInflation: "Expected yearly increase in maintenance costs as the car ages",
+    insuranceDecline: "Expected yearly drop in the insurance premium as the car's insured value falls",
+    investmentReturn: "Yearly return you could earn by investing the money paid upfront for the car instead",
+    incomeTaxRate: "Your marginal income tax rate, including any surcharge and cess",
+    businessUseShare: "Share of the car's use that is for your business and can be claimed as an expense",
+    leasePerquisite: "Monthly value of the leased car added to your taxable salary, e.g. 1,800 for engines up to 1.6 litres in India"
 };
 
-const environmentalTips = [
-    "Using public transport can reduce your carbon footprint by up to 4,800 pounds of CO2 per year",
-    "One full bus can take 60 cars off the road",
-    "Public transportation uses 50% less fuel per passenger mile than private vehicles",
-    "Choosing public transit over private vehicles helps reduce air pollution and traffic congestion"
-];
-
 export default function BuyVsCommuteCalculator() {
-    const [formData, setFormData] = useState({
-        carPrice: '',
-        fuelEfficiency: '', // km per liter
-        fuelPrice: '', // per liter
-        distanceToWork: '', // km one way
-        workingDaysPerMonth: '',
-        maintenanceCosts: '', // monthly
-        insuranceCosts: '', // yearly
-        resaleValue: '',
-        resaleYears: '',
-        publicTransportCosts: '', // monthly
-    });
+    const [formData, setFormData] = useState<CalculatorFormValues>(EMPTY_FORM_VALUES);
 
     const [errors, setErrors] = useState<FormErrors>({});
     const [result, setResult] = useState<CalculationResult | null>(null);
-    const [viewMode, setViewMode] = useState<'monthly' | 'yearly'>('monthly');
-    const [chartType, setChartType] = useState<'line' | 'area'>('line');
+    // Inputs behind the current result, which may differ from the form once edited
+    const [calculatedInput, setCalculatedInput] = useState<CalculatorInput | null>(null);
+    const [goalSeek, setGoalSeek] = useState<GoalSeekResult | null>(null);
+    const [viewMode, setViewMode] = useState<ViewMode>('monthly');
+    const [chartType, setChartType] = useState<ChartType>('line');
+    const [linkCopied, setLinkCopied] = useState(false);
+    // Read out by screen readers when results or validation change
+    const [announcement, setAnnouncement] = useState('');
+    const [historyVersion, setHistoryVersion] = useState(0);
+    // Saved scenarios, shared by the scenario manager and the household planner
+    const [scenarios, setScenarios] = useState<Scenario[]>([]);
+    // The draft is only saved once it has been restored, so the empty form doesn't overwrite it
+    const [draftRestored, setDraftRestored] = useState(false);
+
+    // Results keep the currency and format they were calculated with
+    const resultLocale = calculatedInput?.locale ?? formData.locale;
+    const currencySymbol = CURRENCIES[formData.locale.currency].symbol;
+    const units = UNIT_SYSTEMS[formData.locale.units];
+
+    // Restore a calculation shared through the page URL, or else the form as it was last left
+    useEffect(() => {
+        const shared = decodeShareState(window.location.search);
+        setDraftRestored(true);
+        if (!shared.hasValues) {
+            const draft = loadDraft();
+            if (draft) setFormData(draft);
+            return;
+        }
 
-    const validateField = (name: string, value: string) => {
-        if (value === '') return '';
-        
-        const numValue = parseFloat(value);
-        switch (name) {
-            case 'carPrice':
-                return numValue <= 0 ? 'Car price must be greater than 0' : '';
-            case 'fuelEfficiency':
-                return numValue <= 0 ? 'Fuel efficiency must be greater than 0' : '';
-            case 'fuelPrice':
-                return numValue <= 0 ? 'Fuel price must be greater than 0' : '';
-            case 'workingDaysPerMonth':
-                return numValue <= 0 || numValue > 31 ? 'Working days must be between 1 and 31' : '';
-            case 'resaleYears':
-                return numValue <= 0 ? 'Years until resale must be greater than 0' : '';
-            default:
-                return numValue < 0 ? 'Value cannot be negative' : '';
+        setFormData(shared.values);
+        setViewMode(shared.viewMode);
+        setChartType(shared.chartType);
+
+        const linkErrors = { ...getFormErrors(shared.values), ...shared.errors };
+        setErrors(linkErrors);
+        if (isValid(linkErrors)) {
+            recordHistory(shared.values, showResult(parseFormValues(shared.values)));
+        }
+    }, []);
+
+    useEffect(() => {
+        if (draftRestored) saveDraft(formData);
+    }, [formData, draftRestored]);
+
+    // Browser storage is only available after mount
+    useEffect(() => {
+        setScenarios(loadScenarios());
+    }, []);
+
+    const updateScenarios = (next: Scenario[]) => {
+        setScenarios(next);
+        saveScenarios(next);
+    };
+
+    const showResult = (input: CalculatorInput) => {
+        const calculated = runCalculation(input);
+        setResult(calculated);
+        setCalculatedInput(input);
+        // The goal seek panel reports a fresh break-even for the new inputs
+        setGoalSeek(null);
+        setAnnouncement(summarizeResult(input, calculated).slice(0, 2).join(' '));
+        return calculated;
+    };
+
+    // History is a convenience; the result still shows where storage is blocked
+    const recordHistory = (values: CalculatorFormValues, calculated: CalculationResult) => {
+        addHistoryEntry(values, calculated)
+            .then(() => setHistoryVersion(version => version + 1))
+            .catch(() => undefined);
+    };
+
+    const syncUrl = (values: CalculatorFormValues, view: ViewMode, chart: ChartType) => {
+        const query = encodeShareState({ values, viewMode: view, chartType: chart });
+        window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+    };
+
+    const changeViewMode = (mode: ViewMode) => {
+        setViewMode(mode);
+        syncUrl(formData, mode, chartType);
+    };
+
+    const changeChartType = (type: ChartType) => {
+        setChartType(type);
+        syncUrl(formData, viewMode, type);
+    };
+
+    const copyShareLink = async () => {
+        syncUrl(formData, viewMode, chartType);
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setLinkCopied(true);
+            setAnnouncement('Link copied to the clipboard.');
+            setTimeout(() => setLinkCopied(false), 2000);
+        } catch {
+            alert('Could not copy the link. You can copy it from the address bar instead.');
         }
     };
 
+    const exportResult = (format: 'csv' | 'json') => {
+        if (!result || !calculatedInput) return;
+        const content = format === 'csv' ? buildCsvExport(calculatedInput, result) : buildJsonExport(calculatedInput, result);
+        downloadFile(`buy-vs-commute.${format}`, content, format === 'csv' ? 'text/csv' : 'application/json');
+    };
+
+    // The report shows the result on screen, even if the form has been edited since
+    const openReport = () => {
+        if (!calculatedInput) return;
+        const query = encodeShareState({ values: toFormValues(calculatedInput), viewMode, chartType });
+        window.open(`/report?${query}`, '_blank');
+    };
+
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { name, value } = e.target;
+        const name = e.target.name as CalculatorField;
+        const { value } = e.target;
         
         // Allow empty string or valid number input (including decimals)
         if (value === '' || /^\d*\.?\d*$/.test(value)) {
@@ -110,69 +267,84 @@ export default function BuyVsCommuteCalculator() {
         }
     };
 
-    const validateForm = () => {
-        const newErrors: FormErrors = {};
-        let isValid = true;
-
-        // Validate all fields
-        Object.entries(formData).forEach(([name, value]) => {
-            const error = validateField(name, value);
-            if (error) {
-                newErrors[name] = error;
-                isValid = false;
-            }
-        });
-
-        // Check for empty required fields
-        const requiredFields = ['carPrice', 'fuelEfficiency', 'fuelPrice', 'workingDaysPerMonth'];
-        requiredFields.forEach(field => {
-            if (!formData[field as keyof typeof formData]) {
-                newErrors[field] = 'This field is required';
-                isValid = false;
-            }
-        });
+    const handleLegFieldChange = (index: number, field: CommuteLegField, value: string) => {
+        // Allow empty string or valid number input (including decimals)
+        if (value !== '' && !/^\d*\.?\d*$/.test(value)) return;
 
-        setErrors(newErrors);
-        return isValid;
+        const leg = { ...formData.commuteLegs[index], [field]: value };
+        setFormData(prev => ({
+            ...prev,
+            commuteLegs: prev.commuteLegs.map((item, i) => (i === index ? leg : item))
+        }));
+        setErrors(prev => ({
+            ...prev,
+            [`commuteLegs.${index}.${field}`]: value === '' ? '' : validateCommuteLegField(field, value, leg)
+        }));
     };
 
-    const formatIndianNumber = (num: number): string => {
-        if (num >= 10000000) { // Crores
-            return `${(num / 10000000).toFixed(2)} Cr`;
-        } else if (num >= 100000) { // Lakhs
-            return `${(num / 100000).toFixed(2)} L`;
-        } else if (num >= 1000) { // Thousands
-            return `${(num / 1000).toFixed(2)} K`;
-        }
-        return num.toFixed(2);
+    const setCommuteLegs = (legs: CommuteLegValues[]) => {
+        setFormData(prev => ({ ...prev, commuteLegs: legs }));
+        // Leg errors are keyed by position, which changes when legs are added or removed
+        setErrors(prev => Object.fromEntries(
+            Object.entries(prev).filter(([key]) => !key.startsWith('commuteLegs.'))
+        ));
     };
 
-    const formatIndianWords = (num: number): string => {
-        if (num >= 10000000) {
-            return `${(num / 10000000).toFixed(2)} crores`;
-        } else if (num >= 100000) {
-            return `${(num / 100000).toFixed(2)} lakhs`;
-        } else if (num >= 1000) {
-            return `${(num / 1000).toFixed(2)} thousand`;
-        }
-        return numberToWords.toWords(Math.round(num));
+    const changePowertrain = (powertrain: Powertrain) => {
+        setFormData(prev => ({ ...prev, powertrain }));
+        setErrors({});
     };
 
-    const convertToWords = (value: string) => {
-        if (!value || isNaN(parseFloat(value))) return '';
-        const number = parseFloat(value);
-        if (number === 0) return 'zero';
-        try {
-            return formatIndianWords(number);
-        } catch {
-            return '';
-        }
+    const changeOwnership = (ownership: OwnershipModel) => {
+        setFormData(prev => ({ ...prev, ownership }));
+        setErrors({});
     };
 
-    const calculateEmissions = (monthlyDistance: number) => {
-        // Average car emits 404 grams of CO2 per mile (Source: EPA)
-        const CO2_PER_KM = 0.404;
-        return (monthlyDistance * 12 * CO2_PER_KM) / 1000; // Convert to metric tons
+    const changeTaxProfile = (taxProfile: TaxProfile) => {
+        setFormData(prev => ({ ...prev, taxProfile }));
+        setErrors({});
+    };
+
+    const changeDepreciationModel = (depreciationModel: DepreciationModel) => {
+        setFormData(prev => ({ ...prev, depreciationModel }));
+        setErrors({});
+    };
+
+    const usesField = (field: CalculatorField) => isFieldUsedByOwnership(field, formData.ownership);
+
+    const changeLocale = (locale: Locale) => {
+        setFormData(prev => ({ ...prev, locale }));
+        setErrors(prev => ({ ...prev, 'locale.currency': '', 'locale.numberSystem': '', 'locale.units': '' }));
+    };
+
+    // Choices from a shared link that couldn't be read have no field of their own to show them
+    const settingErrors = SETTING_FIELDS.map(field => errors[field]).filter(Boolean);
+
+    const applyPreset = (update: (values: CalculatorFormValues) => CalculatorFormValues) => {
+        setFormData(prev => update(prev));
+        setErrors({});
+    };
+
+    const acceptImported = (values: Partial<Record<CalculatorField, string>>) => {
+        setFormData(prev => ({ ...prev, ...values }));
+        setErrors(prev => ({
+            ...prev,
+            ...Object.fromEntries(
+                Object.entries(values).map(([name, value]) => [name, validateField(name as CalculatorField, value ?? '')])
+            )
+        }));
+    };
+
+    const validateForm = () => {
+        const newErrors = getFormErrors(formData);
+        setErrors(newErrors);
+        if (!isValid(newErrors)) {
+            const count = Object.keys(newErrors).length;
+            setAnnouncement(`${count} field${count === 1 ? ' needs' : 's need'} attention before calculating.`);
+            // Move focus to the first field with an error once it has rendered
+            requestAnimationFrame(() => document.querySelector<HTMLInputElement>('input[aria-invalid="true"]')?.focus());
+        }
+        return isValid(newErrors);
     };
 
     const calculateCosts = () => {
@@ -180,341 +352,45 @@ export default function BuyVsCommuteCalculator() {
             return;
         }
 
-        const values = {
-            carPrice: parseFloat(formData.carPrice) || 0,
-            fuelEfficiency: parseFloat(formData.fuelEfficiency) || 0,
-            fuelPrice: parseFloat(formData.fuelPrice) || 0,
-            distanceToWork: parseFloat(formData.distanceToWork) || 0,
-            workingDaysPerMonth: parseFloat(formData.workingDaysPerMonth) || 0,
-            maintenanceCosts: parseFloat(formData.maintenanceCosts) || 0,
-            insuranceCosts: parseFloat(formData.insuranceCosts) || 0,
-            resaleValue: parseFloat(formData.resaleValue) || 0,
-            resaleYears: parseFloat(formData.resaleYears) || 1,
-            publicTransportCosts: parseFloat(formData.publicTransportCosts) || 0,
-        };
-
         try {
-            // Calculate monthly fuel costs
-            const monthlyDistance = values.distanceToWork * 2 * values.workingDaysPerMonth;
-            const monthlyFuelCosts = (monthlyDistance / values.fuelEfficiency) * values.fuelPrice;
-
-            // Calculate monthly depreciation
-            const totalDepreciation = values.carPrice - values.resaleValue;
-            const monthlyDepreciation = totalDepreciation / (values.resaleYears * 12);
-
-            // Calculate total monthly car costs
-            const monthlyCarCosts = 
-                monthlyFuelCosts + 
-                values.maintenanceCosts + 
-                (values.insuranceCosts / 12) + 
-                monthlyDepreciation;
-
-            // Calculate yearly costs
-            const yearlyCarCosts = monthlyCarCosts * 12;
-            const yearlyCommuteCosts = values.publicTransportCosts * 12;
-
-            // Calculate yearly emissions
-            const yearlyEmissions = calculateEmissions(monthlyDistance);
-
-            setResult({
-                totalCarCost: monthlyCarCosts,
-                totalCommuteCost: values.publicTransportCosts,
-                monthlySavings: values.publicTransportCosts - monthlyCarCosts,
-                yearlySavings: yearlyCommuteCosts - yearlyCarCosts,
-                fuelCosts: monthlyFuelCosts,
-                maintenanceCost: values.maintenanceCosts,
-                insuranceCost: values.insuranceCosts / 12,
-                depreciationCost: monthlyDepreciation,
-                yearlyEmissions
-            });
-        } catch (error) {
+            const calculated = showResult(parseFormValues(formData));
+            syncUrl(formData, viewMode, chartType);
+            recordHistory(formData, calculated);
+        } catch {
             alert('An error occurred while calculating. Please check your inputs.');
         }
     };
 
-    const InputField = ({ label, name, value, unit }: { label: string; name: string; value: string; unit: string }) => (
-        <div className="relative mb-4 sm:mb-6">
-            <div className="flex items-center justify-between mb-1">
-                <label className="block text-xs sm:text-sm font-semibold text-gray-700">
-                    {label}
-                    {['carPrice', 'fuelEfficiency', 'fuelPrice', 'workingDaysPerMonth'].includes(name) && 
-                        <span className="text-red-500 ml-1">*</span>
-                    }
-                </label>
-                <Popover className="relative">
-                    <Popover.Button className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 rounded-full p-1">
-                        <FaInfoCircle className="w-3 h-3 sm:w-4 sm:h-4" />
-                    </Popover.Button>
-                    <Popover.Panel className="absolute z-10 w-64 sm:w-72 px-3 py-2 sm:px-4 sm:py-3 text-xs sm:text-sm bg-gray-900 text-white rounded-lg shadow-lg right-0 mt-2">
-                        {tooltipContent[name as keyof typeof tooltipContent]}
-                    </Popover.Panel>
-                </Popover>
-            </div>
-            <div className="relative group">
-                <input
-                    type="text"
-                    inputMode="decimal"
-                    name={name}
-                    value={value}
-                    onChange={handleInputChange}
-                    onKeyDown={(e) => {
-                        if (
-                            e.key === 'Backspace' ||
-                            e.key === 'Delete' ||
-                            e.key === 'Tab' ||
-                            e.key === 'Escape' ||
-                            e.key === 'Enter' ||
-                            e.key === '.' ||
-                            e.key === 'ArrowLeft' ||
-                            e.key === 'ArrowRight' ||
-                            e.key === 'ArrowUp' ||
-                            e.key === 'ArrowDown' ||
-                            /^\d$/.test(e.key)
-                        ) {
-                            if (e.key === '.' && value.includes('.')) {
-                                e.preventDefault();
-                            }
-                            return;
-                        }
-                        e.preventDefault();
-                    }}
-                    className={`block w-full rounded-lg border-2 text-sm sm:text-base ${
-                        errors[name] ? 'border-red-500' : 'border-gray-200 group-hover:border-blue-300'
-                    } bg-white px-3 py-2 sm:px-4 sm:py-3 pr-12 shadow-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-30 transition-all duration-200`}
-                    placeholder="0"
-                    autoComplete="off"
-                />
-                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 text-xs sm:text-sm bg-white px-1">
-                    {unit}
-                </span>
-            </div>
-            {errors[name] && (
-                <p className="mt-1 sm:mt-2 text-xs sm:text-sm text-red-500 flex items-center">
-                    <FaInfoCircle className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
-                    {errors[name]}
-                </p>
-            )}
-            {value && !errors[name] && (
-                <p className="mt-1 text-xs text-gray-500 italic">
-                    {convertToWords(value)} {unit}
-                </p>
-            )}
-        </div>
-    );
-
-    const renderResults = () => {
-        if (!result) return null;
-
-        return (
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
-                <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
-                    <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-blue-600 flex items-center">
-                        <FaCar className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
-                        Car Ownership
-                    </h3>
-                    <div className="space-y-2 sm:space-y-3">
-                        <p className="text-base sm:text-lg flex justify-between items-center">
-                            <span className="text-gray-600">Total Cost:</span>
-                            <span className="font-bold text-gray-900">
-                                ₹{formatIndianNumber(viewMode === 'monthly' ? result.totalCarCost : result.totalCarCost * 12)}
-                            </span>
-                        </p>
-                        <div className="pt-2 sm:pt-3 border-t border-gray-100">
-                            <p className="text-sm flex justify-between items-center text-gray-500">
-                                <span>Fuel:</span>
-                                <span>₹{formatIndianNumber(result.fuelCosts)}</span>
-                            </p>
-                            <p className="text-sm flex justify-between items-center text-gray-500">
-                                <span>Maintenance:</span>
-                                <span>₹{formatIndianNumber(result.maintenanceCost)}</span>
-                            </p>
-                            <p className="text-sm flex justify-between items-center text-gray-500">
-                                <span>Insurance:</span>
-                                <span>₹{formatIndianNumber(result.insuranceCost)}</span>
-                            </p>
-                            <p className="text-sm flex justify-between items-center text-gray-500">
-                                <span>Depreciation:</span>
-                                <span>₹{formatIndianNumber(result.depreciationCost)}</span>
-                            </p>
-                        </div>
-                    </div>
-                </div>
-                <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
-                    <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-green-600 flex items-center">
-                        <FaBus className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
-                        Public Transport
-                    </h3>
-                    <div className="space-y-2 sm:space-y-3">
-                        <p className="text-base sm:text-lg flex justify-between items-center">
-                            <span className="text-gray-600">Total Cost:</span>
-                            <span className="font-bold text-gray-900">
-                                ₹{formatIndianNumber(viewMode === 'monthly' ? result.totalCommuteCost : result.totalCommuteCost * 12)}
-                            </span>
-                        </p>
-                    </div>
-                </div>
-            </div>
-        );
+    const loadValues = (values: CalculatorFormValues) => {
+        setFormData(values);
+        setErrors({});
+        setResult(null);
     };
 
-    const renderCharts = () => {
-        if (!result) return null;
-
-        const costBreakdown = [
-            { name: 'Fuel', value: result.fuelCosts },
-            { name: 'Maintenance', value: result.maintenanceCost },
-            { name: 'Insurance', value: result.insuranceCost },
-            { name: 'Depreciation', value: result.depreciationCost }
-        ];
-
-        // Generate monthly data points for the line/area chart
-        const monthlyData = Array.from({ length: 12 }, (_, i) => ({
-            month: `Month ${i + 1}`,
-            Car: result.totalCarCost,
-            'Public Transport': result.totalCommuteCost
-        }));
-
-        const comparisonData = [
-            {
-                name: viewMode === 'monthly' ? 'Monthly' : 'Yearly',
-                Car: viewMode === 'monthly' ? result.totalCarCost : result.totalCarCost * 12,
-                'Public Transport': viewMode === 'monthly' ? result.totalCommuteCost : result.totalCommuteCost * 12
-            }
-        ];
-
-        return (
-            <div className="mt-6 sm:mt-8 space-y-6 sm:space-y-8">
-                <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6 space-y-3 sm:space-y-0">
-                        <h3 className="text-base sm:text-lg font-bold flex items-center">
-                            <FaChartBar className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
-                            Cost Comparison
-                        </h3>
-                        <div className="flex space-x-2">
-                            <button
-                                onClick={() => setChartType('line')}
-                                className={`px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 flex items-center ${
-                                    chartType === 'line'
-                                        ? 'bg-blue-600 text-white shadow-md'
-                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                                }`}
-                            >
-                                <FaChartLine className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-1.5" />
-                                Line
-                            </button>
-                            <button
-                                onClick={() => setChartType('area')}
-                                className={`px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 flex items-center ${
-                                    chartType === 'area'
-                                        ? 'bg-blue-600 text-white shadow-md'
-                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                                }`}
-                            >
-                                <FaChartArea className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-1.5" />
-                                Area
-                            </button>
-                        </div>
-                    </div>
-                    <div className="h-[250px] sm:h-[300px] md:h-[400px]">
-                        <ResponsiveContainer width="100%" height="100%">
-                            {chartType === 'line' ? (
-                                <LineChart data={monthlyData}>
-                                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                                    <XAxis dataKey="month" />
-                                    <YAxis tickFormatter={(value) => `₹${formatIndianNumber(value)}`} />
-                                    <Tooltip 
-                                        formatter={(value: number) => [`₹${formatIndianNumber(value)}`, '']}
-                                        contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
-                                    />
-                                    <Legend />
-                                    <Line type="monotone" dataKey="Car" stroke="#0088FE" strokeWidth={2} dot={{ r: 4 }} />
-                                    <Line type="monotone" dataKey="Public Transport" stroke="#00C49F" strokeWidth={2} dot={{ r: 4 }} />
-                                </LineChart>
-                            ) : (
-                                <AreaChart data={monthlyData}>
-                                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                                    <XAxis dataKey="month" />
-                                    <YAxis tickFormatter={(value) => `₹${formatIndianNumber(value)}`} />
-                                    <Tooltip 
-                                        formatter={(value: number) => [`₹${formatIndianNumber(value)}`, '']}
-                                        contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
-                                    />
-                                    <Legend />
-                                    <Area type="monotone" dataKey="Car" fill="#0088FE" fillOpacity={0.2} stroke="#0088FE" strokeWidth={2} />
-                                    <Area type="monotone" dataKey="Public Transport" fill="#00C49F" fillOpacity={0.2} stroke="#00C49F" strokeWidth={2} />
-                                </AreaChart>
-                            )}
-                        </ResponsiveContainer>
-                    </div>
-                </div>
-
-                <div className="bg-white rounded-lg p-6 shadow-md">
-                    <h3 className="text-lg font-bold mb-6 flex items-center">
-                        <FaChartBar className="w-5 h-5 mr-2" />
-                        Car Cost Breakdown
-                    </h3>
-                    <ResponsiveContainer width="100%" height={300}>
-                        <PieChart>
-                            <Pie
-                                data={costBreakdown}
-                                cx="50%"
-                                cy="50%"
-                                labelLine={false}
-                                label={({ name, value, percent }) => 
-                                    `${name} (₹${formatIndianNumber(value)}) ${(percent * 100).toFixed(0)}%`
-                                }
-                                outerRadius={100}
-                                fill="#8884d8"
-                                dataKey="value"
-                            >
-                                {costBreakdown.map((entry, index) => (
-                                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                                ))}
-                            </Pie>
-                            <Tooltip 
-                                formatter={(value: number) => [`₹${formatIndianNumber(value)}`, '']}
-                                contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
-                            />
-                        </PieChart>
-                    </ResponsiveContainer>
-                </div>
-
-                <div className="bg-white rounded-lg p-6 shadow-md">
-                    <h3 className="text-lg font-bold mb-4 flex items-center">
-                        <FaLeaf className="w-5 h-5 mr-2" />
-                        Environmental Impact
-                    </h3>
-                    <div className="space-y-4">
-                        <div className="bg-blue-50 rounded-lg p-4">
-                            <p className="text-blue-800 font-medium mb-2">
-                                Your Carbon Footprint:
-                            </p>
-                            <p className="text-blue-600 text-2xl font-bold mb-1">
-                                {result.yearlyEmissions.toFixed(2)} metric tons
-                            </p>
-                            <p className="text-blue-600 text-sm">
-                                of CO2 emissions per year from car usage
-                            </p>
-                        </div>
-                        <div className="bg-green-50 rounded-lg p-4">
-                            <h4 className="font-semibold text-green-800 mb-3">Environmental Benefits of Public Transport:</h4>
-                            <ul className="space-y-3">
-                                {environmentalTips.map((tip, index) => (
-                                    <li key={index} className="flex items-start text-green-700">
-                                        <FaLeaf className="w-5 h-5 mr-2 mt-1 flex-shrink-0 text-green-500" />
-                                        <span>{tip}</span>
-                                    </li>
-                                ))}
-                            </ul>
-                        </div>
-                    </div>
-                </div>
-            </div>
-        );
+    // Shows the stored result as it was calculated, rather than running it again
+    const openHistoryEntry = (entry: HistoryEntry) => {
+        setFormData(entry.values);
+        setErrors({});
+        setResult(entry.result);
+        setCalculatedInput(parseFormValues(entry.values));
+        setGoalSeek(null);
+        syncUrl(entry.values, viewMode, chartType);
+        setAnnouncement(`Opened the calculation from ${new Date(entry.createdAt).toLocaleString()}.`);
     };
 
+    const fieldProps = (name: CalculatorField) => ({
+        name,
+        value: formData[name],
+        help: tooltipContent[name],
+        required: getRequiredFields(formData).includes(name),
+        error: errors[name],
+        numberSystem: formData.locale.numberSystem,
+        onChange: handleInputChange,
+    });
+
     return (
         <div className="min-h-screen bg-gray-50 py-6 sm:py-8 lg:py-12 px-3 sm:px-4 lg:px-8">
+            <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
             <div className="max-w-6xl mx-auto bg-white rounded-xl sm:rounded-2xl shadow-lg sm:shadow-xl overflow-hidden">
                 <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-10">
                     <h1 className="text-2xl sm:text-3xl lg:text-4xl xl:text-5xl font-bold text-center text-white mb-2 sm:mb-3">
@@ -526,6 +402,21 @@ export default function BuyVsCommuteCalculator() {
                 </div>
                 
                 <div className="p-4 sm:p-6 lg:p-8 xl:p-12">
+                    {settingErrors.length > 0 && (
+                        <div role="alert" className="mb-4 sm:mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-3 text-xs sm:text-sm text-red-700">
+                            <p className="font-semibold">Some settings in the link could not be read:</p>
+                            <ul className="list-disc pl-5 mt-1">
+                                {settingErrors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    <LocaleSettings locale={formData.locale} onLocaleChange={changeLocale} />
+                    <PresetLibrary onApply={applyPreset} />
+                    <TripImport
+                        units={formData.locale.units}
+                        workingDaysPerMonth={formData.workingDaysPerMonth}
+                        onAccept={acceptImported}
+                    />
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8 lg:gap-12">
                         <div className="space-y-4 sm:space-y-6">
                             <div className="pb-3 sm:pb-4 border-b border-gray-200">
@@ -533,11 +424,118 @@ export default function BuyVsCommuteCalculator() {
                                 <p className="text-xs sm:text-sm text-gray-500 mt-1">Enter your estimated car-related expenses</p>
                             </div>
                             <div className="space-y-4 sm:space-y-6">
-                                <InputField label="Car Price" name="carPrice" value={formData.carPrice} unit="₹" />
-                                <InputField label="Fuel Efficiency" name="fuelEfficiency" value={formData.fuelEfficiency} unit="km/L" />
-                                <InputField label="Fuel Price" name="fuelPrice" value={formData.fuelPrice} unit="₹/L" />
-                                <InputField label="Monthly Maintenance" name="maintenanceCosts" value={formData.maintenanceCosts} unit="₹" />
-                                <InputField label="Yearly Insurance" name="insuranceCosts" value={formData.insuranceCosts} unit="₹" />
+                                <div className="mb-4 sm:mb-6">
+                                    <span id="ownership-label" className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1">Ownership</span>
+                                    <div role="group" aria-labelledby="ownership-label" className="flex flex-wrap gap-2">
+                                        {(Object.keys(OWNERSHIP_MODELS) as OwnershipModel[]).map(ownership => (
+                                            <button
+                                                key={ownership}
+                                                onClick={() => changeOwnership(ownership)}
+                                                aria-pressed={formData.ownership === ownership}
+                                                className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                                                    formData.ownership === ownership
+                                                        ? 'bg-blue-600 text-white shadow-md'
+                                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                                }`}
+                                            >
+                                                {OWNERSHIP_MODELS[ownership].label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {usesField('carPrice') && (
+                                    <>
+                                        <InputField label={formData.ownership === 'two-wheeler' ? 'Two-Wheeler Price' : 'Car Price'} {...fieldProps('carPrice')} unit={currencySymbol} />
+                                        <OnRoadPriceBuilder
+                                            powertrain={formData.powertrain}
+                                            ownership={formData.ownership}
+                                            locale={formData.locale}
+                                            insurance={formData.insuranceCosts}
+                                            onApply={applyPreset}
+                                        />
+                                        <InputField label="Down Payment" {...fieldProps('downPayment')} unit={currencySymbol} />
+                                        <InputField label="Loan Tenure" {...fieldProps('loanTenure')} unit="years" />
+                                        <InputField label="Loan Interest Rate" {...fieldProps('interestRate')} unit="% p.a." />
+                                    </>
+                                )}
+                                {usesField('carAgeYears') && (
+                                    <>
+                                        <InputField label="Car Age" {...fieldProps('carAgeYears')} unit="years" />
+                                        <InputField label="Repairs per Year of Age" {...fieldProps('repairCostPerYearOfAge')} unit={`${currencySymbol}/year`} />
+                                    </>
+                                )}
+                                {usesField('subscriptionFee') && (
+                                    <>
+                                        <InputField label="Monthly Subscription Fee" {...fieldProps('subscriptionFee')} unit={currencySymbol} />
+                                        <InputField label="Upfront Fee" {...fieldProps('subscriptionUpfront')} unit={currencySymbol} />
+                                    </>
+                                )}
+                                {usesField('sharingHourlyRate') && (
+                                    <>
+                                        <InputField label="Hourly Rate" {...fieldProps('sharingHourlyRate')} unit={`${currencySymbol}/hour`} />
+                                        <InputField label="Hours Booked per Month" {...fieldProps('sharingHoursPerMonth')} unit="hours" />
+                                        <InputField label="Distance Rate" {...fieldProps('sharingDistanceRate')} unit={`${currencySymbol}/${units.distance}`} />
+                                    </>
+                                )}
+                                <div className="mb-4 sm:mb-6">
+                                    <span id="powertrain-label" className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1">Powertrain</span>
+                                    <div role="group" aria-labelledby="powertrain-label" className="flex flex-wrap gap-2">
+                                        {(Object.keys(POWERTRAINS) as Powertrain[]).map(powertrain => (
+                                            <button
+                                                key={powertrain}
+                                                onClick={() => changePowertrain(powertrain)}
+                                                aria-pressed={formData.powertrain === powertrain}
+                                                className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                                                    formData.powertrain === powertrain
+                                                        ? 'bg-blue-600 text-white shadow-md'
+                                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                                }`}
+                                            >
+                                                {POWERTRAINS[powertrain].label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {formData.powertrain === 'ev' ? (
+                                    <>
+                                        <InputField label="Energy Consumption" {...fieldProps('evConsumption')} unit={`kWh/100${units.distance}`} />
+                                        <InputField label="Home Charging Tariff" {...fieldProps('homeChargingTariff')} unit={`${currencySymbol}/kWh`} />
+                                        <InputField label="Public Charging Tariff" {...fieldProps('publicChargingTariff')} unit={`${currencySymbol}/kWh`} />
+                                        <InputField label="Charged at Home" {...fieldProps('homeChargingShare')} unit="%" />
+                                        <InputField label="Home Charger Installation" {...fieldProps('chargerInstallCost')} unit={currencySymbol} />
+                                        <InputField label="Grid Carbon Intensity" {...fieldProps('gridCarbonIntensity')} unit="kg/kWh" />
+                                    </>
+                                ) : (
+                                    <>
+                                        <InputField label="Fuel Efficiency" {...fieldProps('fuelEfficiency')} unit={formData.powertrain === 'cng' ? `${units.distance}/kg` : units.efficiency} />
+                                        <InputField label="Fuel Price" {...fieldProps('fuelPrice')} unit={`${currencySymbol}/${formData.powertrain === 'cng' ? 'kg' : units.fuelVolume}`} />
+                                    </>
+                                )}
+                                {formData.powertrain === 'hybrid' && (
+                                    <>
+                                        <InputField label="Driven on Battery" {...fieldProps('electricShare')} unit="%" />
+                                        {parseFloat(formData.electricShare) > 0 && (
+                                            <>
+                                                <InputField label="Energy Consumption" {...fieldProps('evConsumption')} unit={`kWh/100${units.distance}`} />
+                                                <InputField label="Home Charging Tariff" {...fieldProps('homeChargingTariff')} unit={`${currencySymbol}/kWh`} />
+                                                <InputField label="Public Charging Tariff" {...fieldProps('publicChargingTariff')} unit={`${currencySymbol}/kWh`} />
+                                                <InputField label="Charged at Home" {...fieldProps('homeChargingShare')} unit="%" />
+                                                <InputField label="Home Charger Installation" {...fieldProps('chargerInstallCost')} unit={currencySymbol} />
+                                                <InputField label="Grid Carbon Intensity" {...fieldProps('gridCarbonIntensity')} unit="kg/kWh" />
+                                            </>
+                                        )}
+                                    </>
+                                )}
+                                {usesField('maintenanceCosts') && (
+                                    <>
+                                        <InputField label="Monthly Maintenance" {...fieldProps('maintenanceCosts')} unit={currencySymbol} />
+                                        <InputField label="Mileage Maintenance" {...fieldProps('maintenancePerDistance')} unit={`${currencySymbol}/${units.distance}`} />
+                                        <InputField label="Yearly Insurance" {...fieldProps('insuranceCosts')} unit={currencySymbol} />
+                                    </>
+                                )}
+                                <InputField label="Monthly Parking" {...fieldProps('parkingCosts')} unit={currencySymbol} />
+                                <InputField label="Monthly Tolls" {...fieldProps('tollCosts')} unit={currencySymbol} />
+                                <InputField label="Monthly Traffic Fines" {...fieldProps('trafficFines')} unit={currencySymbol} />
                             </div>
                         </div>
 
@@ -547,15 +545,160 @@ export default function BuyVsCommuteCalculator() {
                                 <p className="text-xs sm:text-sm text-gray-500 mt-1">Enter your commute details and preferences</p>
                             </div>
                             <div className="space-y-4 sm:space-y-6">
-                                <InputField label="Distance to Work" name="distanceToWork" value={formData.distanceToWork} unit="km" />
-                                <InputField label="Working Days per Month" name="workingDaysPerMonth" value={formData.workingDaysPerMonth} unit="days" />
-                                <InputField label="Resale Value" name="resaleValue" value={formData.resaleValue} unit="₹" />
-                                <InputField label="Years until Resale" name="resaleYears" value={formData.resaleYears} unit="years" />
-                                <InputField label="Monthly Public Transport Cost" name="publicTransportCosts" value={formData.publicTransportCosts} unit="₹" />
+                                <InputField label="Distance to Work" {...fieldProps('distanceToWork')} unit={units.distance} />
+                                <InputField label="Working Days per Month" {...fieldProps('workingDaysPerMonth')} unit="days" />
+                                <InputField label="Car Days per Week" {...fieldProps('carDaysPerWeek')} unit="days/week" />
+                                <InputField label="Public Transport Days per Week" {...fieldProps('transitDaysPerWeek')} unit="days/week" />
+                                <InputField label="Work-from-Home Days per Week" {...fieldProps('wfhDaysPerWeek')} unit="days/week" />
+                                <InputField label="Leisure Driving" {...fieldProps('leisureDistance')} unit={`${units.distance}/month`} />
+                                {usesField('resaleValue') ? (
+                                    <>
+                                        <div className="mb-4 sm:mb-6">
+                                            <span id="depreciation-label" className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1">Depreciation</span>
+                                            <div role="group" aria-labelledby="depreciation-label" className="flex flex-wrap gap-2">
+                                                {(Object.keys(DEPRECIATION_MODELS) as DepreciationModel[]).map(depreciationModel => (
+                                                    <button
+                                                        key={depreciationModel}
+                                                        onClick={() => changeDepreciationModel(depreciationModel)}
+                                                        aria-pressed={formData.depreciationModel === depreciationModel}
+                                                        className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                                                            formData.depreciationModel === depreciationModel
+                                                                ? 'bg-blue-600 text-white shadow-md'
+                                                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                                        }`}
+                                                    >
+                                                        {DEPRECIATION_MODELS[depreciationModel].label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <p className="text-xs text-gray-500 mt-1">{DEPRECIATION_MODELS[formData.depreciationModel].description}</p>
+                                        </div>
+                                        {formData.depreciationModel === 'segment' && (
+                                            <label className="block mb-4 sm:mb-6">
+                                                <span className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1">Segment</span>
+                                                <select
+                                                    value={formData.vehicleSegment}
+                                                    onChange={(e) => setFormData(prev => ({ ...prev, vehicleSegment: e.target.value as VehicleSegment }))}
+                                                    className="w-full rounded-lg border-2 border-gray-200 bg-white px-3 py-2 text-sm focus:border-blue-500"
+                                                >
+                                                    {(Object.keys(VEHICLE_SEGMENTS) as VehicleSegment[]).map(segment => (
+                                                        <option key={segment} value={segment}>{VEHICLE_SEGMENTS[segment].label}</option>
+                                                    ))}
+                                                </select>
+                                            </label>
+                                        )}
+                                        {formData.depreciationModel === 'straight-line' && (
+                                            <InputField label="Resale Value" {...fieldProps('resaleValue')} unit={currencySymbol} />
+                                        )}
+                                        {formData.depreciationModel === 'declining-balance' && (
+                                            <InputField label="Yearly Depreciation" {...fieldProps('depreciationRate')} unit="%/yr" />
+                                        )}
+                                        <InputField label="Years until Resale" {...fieldProps('resaleYears')} unit="years" />
+                                        {formData.depreciationModel !== 'segment' && (
+                                            <InputField label="Mileage Depreciation" {...fieldProps('depreciationPerDistance')} unit={`${currencySymbol}/${units.distance}`} />
+                                        )}
+                                    </>
+                                ) : (
+                                    <InputField label="Years to Compare" {...fieldProps('resaleYears')} unit="years" />
+                                )}
+                                <InputField label="Monthly Public Transport Cost" {...fieldProps('publicTransportCosts')} unit={currencySymbol} />
+                                <CommuteBuilder
+                                    legs={formData.commuteLegs}
+                                    locale={formData.locale}
+                                    errors={errors}
+                                    onChange={setCommuteLegs}
+                                    onFieldChange={handleLegFieldChange}
+                                />
+                                <InputField label="Occasional Cab Days" {...fieldProps('cabDaysPerMonth')} unit="days/month" />
+                                <InputField label="Cab Fare per Day" {...fieldProps('cabFarePerDay')} unit={currencySymbol} />
                             </div>
                         </div>
                     </div>
 
+                    <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6">
+                        <div className="pb-3 sm:pb-4 border-b border-gray-200">
+                            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800">Travel Time</h2>
+                            <p className="text-xs sm:text-sm text-gray-500 mt-1">Optional, to weigh the time each option takes alongside its cost</p>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 lg:gap-x-12">
+                            <InputField label="Travel Time by Car" {...fieldProps('carTravelMinutes')} unit="min" />
+                            <InputField label="Travel Time by Public Transport" {...fieldProps('transitTravelMinutes')} unit="min" />
+                            <InputField label="Value of Your Time" {...fieldProps('valueOfTime')} unit={`${currencySymbol}/hour`} />
+                            <InputField label="Productive Transit Time" {...fieldProps('transitProductiveShare')} unit="%" />
+                        </div>
+                    </div>
+
+                    {usesField('serviceCost') && (
+                        <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6">
+                            <div className="pb-3 sm:pb-4 border-b border-gray-200">
+                                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800">Service Schedule</h2>
+                                <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                                    Optional, replaces the maintenance estimates with services and parts due by distance and age
+                                </p>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 lg:gap-x-12">
+                                <InputField label="Service Interval" {...fieldProps('serviceIntervalDistance')} unit={units.distance} />
+                                <InputField label="Or Every" {...fieldProps('serviceIntervalMonths')} unit="months" />
+                                <InputField label="Cost per Service" {...fieldProps('serviceCost')} unit={currencySymbol} />
+                                <InputField label="Tyre Life" {...fieldProps('tyreLife')} unit={units.distance} />
+                                <InputField label="Set of Tyres" {...fieldProps('tyreCost')} unit={currencySymbol} />
+                                <InputField label="Brake Pad Life" {...fieldProps('brakeLife')} unit={units.distance} />
+                                <InputField label="Brake Pads" {...fieldProps('brakeCost')} unit={currencySymbol} />
+                                <InputField label="Battery Life" {...fieldProps('batteryLifeYears')} unit="years" />
+                                <InputField label="Battery" {...fieldProps('batteryCost')} unit={currencySymbol} />
+                                <InputField label="Warranty" {...fieldProps('warrantyYears')} unit="years" />
+                                <InputField label="Cost Increase after Warranty" {...fieldProps('postWarrantyIncrease')} unit="%" />
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6">
+                        <div className="pb-3 sm:pb-4 border-b border-gray-200">
+                            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800">Projection Assumptions</h2>
+                            <p className="text-xs sm:text-sm text-gray-500 mt-1">Optional yearly rates used to project costs over the ownership period</p>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 lg:gap-x-12">
+                            <InputField label="Fuel Price Inflation" {...fieldProps('fuelInflation')} unit="%/yr" />
+                            <InputField label="Fare Inflation" {...fieldProps('transitInflation')} unit="%/yr" />
+                            <InputField label="Maintenance Inflation" {...fieldProps('maintenanceInflation')} unit="%/yr" />
+                            <InputField label="Insurance Decline" {...fieldProps('insuranceDecline')} unit="%/yr" />
+                            <InputField label="Investment Return" {...fieldProps('investmentReturn')} unit="%/yr" />
+                        </div>
+                    </div>
+
+                    <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6">
+                        <div className="pb-3 sm:pb-4 border-b border-gray-200">
+                            <h2 id="tax-treatment-label" className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800">Tax Treatment</h2>
+                            <p className="text-xs sm:text-sm text-gray-500 mt-1">{TAX_PROFILES[formData.taxProfile].description}</p>
+                        </div>
+                        <div role="group" aria-labelledby="tax-treatment-label" className="flex flex-wrap gap-2">
+                            {(Object.keys(TAX_PROFILES) as TaxProfile[]).map(taxProfile => (
+                                <button
+                                    key={taxProfile}
+                                    onClick={() => changeTaxProfile(taxProfile)}
+                                    aria-pressed={formData.taxProfile === taxProfile}
+                                    className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                                        formData.taxProfile === taxProfile
+                                            ? 'bg-blue-600 text-white shadow-md'
+                                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                    }`}
+                                >
+                                    {TAX_PROFILES[taxProfile].label}
+                                </button>
+                            ))}
+                        </div>
+                        {formData.taxProfile !== 'none' && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 lg:gap-x-12">
+                                <InputField label="Income Tax Rate" {...fieldProps('incomeTaxRate')} unit="%" />
+                                {formData.taxProfile === 'self-employed' ? (
+                                    <InputField label="Business Use" {...fieldProps('businessUseShare')} unit="%" />
+                                ) : (
+                                    <InputField label="Taxable Perquisite" {...fieldProps('leasePerquisite')} unit={`${currencySymbol}/month`} />
+                                )}
+                            </div>
+                        )}
+                    </div>
+
                     <div className="mt-8 sm:mt-10 lg:mt-12 text-center">
                         <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">Fields marked with <span className="text-red-500">*</span> are required</p>
                         <button
@@ -567,12 +710,24 @@ export default function BuyVsCommuteCalculator() {
                         </button>
                     </div>
 
+                    <ScenarioManager
+                        formData={formData}
+                        scenarios={scenarios}
+                        onScenariosChange={updateScenarios}
+                        onLoad={loadValues}
+                    />
+
+                    <HouseholdPlanner formData={formData} scenarios={scenarios} />
+
+                    <CalculationHistory version={historyVersion} onOpen={openHistoryEntry} />
+
                     {result && (
                         <div className="mt-8 sm:mt-10 lg:mt-12">
                             <div className="bg-gray-50 rounded-lg sm:rounded-xl p-4 sm:p-6 lg:p-8">
-                                <div className="flex flex-col sm:flex-row justify-center items-center space-y-2 sm:space-y-0 sm:space-x-4 lg:space-x-6 mb-6 sm:mb-8">
+                                <div className="flex flex-col sm:flex-row sm:flex-wrap justify-center items-center gap-2 sm:gap-3 mb-6 sm:mb-8">
                                     <button
-                                        onClick={() => setViewMode('monthly')}
+                                        onClick={() => changeViewMode('monthly')}
+                                        aria-pressed={viewMode === 'monthly'}
                                         className={`w-full sm:w-auto px-6 py-2 rounded-lg transition-all duration-200 ${
                                             viewMode === 'monthly'
                                                 ? 'bg-blue-600 text-white shadow-lg'
@@ -582,7 +737,8 @@ export default function BuyVsCommuteCalculator() {
                                         Monthly View
                                     </button>
                                     <button
-                                        onClick={() => setViewMode('yearly')}
+                                        onClick={() => changeViewMode('yearly')}
+                                        aria-pressed={viewMode === 'yearly'}
                                         className={`w-full sm:w-auto px-6 py-2 rounded-lg transition-all duration-200 ${
                                             viewMode === 'yearly'
                                                 ? 'bg-blue-600 text-white shadow-lg'
@@ -591,10 +747,44 @@ export default function BuyVsCommuteCalculator() {
                                     >
                                         Yearly View
                                     </button>
+                                    <button
+                                        onClick={copyShareLink}
+                                        className="w-full sm:w-auto px-6 py-2 rounded-lg transition-all duration-200 bg-white text-gray-600 hover:bg-gray-50 border border-gray-200 inline-flex items-center justify-center"
+                                    >
+                                        <FaLink className="w-4 h-4 mr-2" />
+                                        {linkCopied ? 'Link Copied!' : 'Copy Link'}
+                                    </button>
+                                    <button
+                                        onClick={() => exportResult('csv')}
+                                        className="w-full sm:w-auto px-6 py-2 rounded-lg transition-all duration-200 bg-white text-gray-600 hover:bg-gray-50 border border-gray-200 inline-flex items-center justify-center"
+                                    >
+                                        <FaFileCsv className="w-4 h-4 mr-2" />
+                                        CSV
+                                    </button>
+                                    <button
+                                        onClick={() => exportResult('json')}
+                                        className="w-full sm:w-auto px-6 py-2 rounded-lg transition-all duration-200 bg-white text-gray-600 hover:bg-gray-50 border border-gray-200 inline-flex items-center justify-center"
+                                    >
+                                        <FaFileCode className="w-4 h-4 mr-2" />
+                                        JSON
+                                    </button>
+                                    <button
+                                        onClick={openReport}
+                                        className="w-full sm:w-auto px-6 py-2 rounded-lg transition-all duration-200 bg-white text-gray-600 hover:bg-gray-50 border border-gray-200 inline-flex items-center justify-center"
+                                    >
+                                        <FaPrint className="w-4 h-4 mr-2" />
+                                        Report
+                                    </button>
                                 </div>
 
-                                {renderResults()}
-                                {renderCharts()}
+                                <ResultCards result={result} locale={resultLocale} viewMode={viewMode} />
+                                <ResultCharts result={result} locale={resultLocale} chartType={chartType} onChartTypeChange={changeChartType} />
+                                {calculatedInput && isFieldUsedByOwnership('resaleValue', calculatedInput.ownership) && (
+                                    <HoldingPeriods values={calculatedInput} />
+                                )}
+                                {calculatedInput && <GoalSeekPanel values={calculatedInput} onSolve={setGoalSeek} />}
+                                {calculatedInput && <SensitivityAnalysis values={calculatedInput} breakEven={goalSeek} />}
+                                {calculatedInput && <MonteCarloPanel values={calculatedInput} />}
                             </div>
                         </div>
                     )}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaFolderOpen, FaHistory, FaTrash } from 'react-icons/fa';
+import { CalculationResult, OWNERSHIP_MODELS, POWERTRAINS, formatCurrency } from '@/lib/calculator';
+import { HistoryEntry, clearHistory, deleteHistoryEntry, diffHistoryInputs, loadHistory } from '@/lib/history';
+
+const RESULT_METRICS: { key: keyof CalculationResult; label: string; unit: 'currency' | 'tons' }[] = [
+    { key: 'totalCarCost', label: 'Car (monthly)', unit: 'currency' },
+    { key: 'totalCommuteCost', label: 'Public Transport (monthly)', unit: 'currency' },
+    { key: 'monthlySavings', label: 'Monthly Savings', unit: 'currency' },
+    { key: 'yearlySavings', label: 'Yearly Savings', unit: 'currency' },
+    { key: 'totalInterest', label: 'Total Loan Interest', unit: 'currency' },
+    { key: 'yearlyEmissions', label: 'Car CO2 per Year', unit: 'tons' },
+];
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface CalculationHistoryProps {
+    /** Bumped after each calculation is stored, to reload the list */
+    version: number;
+    onOpen: (entry: HistoryEntry) => void;
+}
+
+export default function CalculationHistory({ version, onOpen }: CalculationHistoryProps) {
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [error, setError] = useState('');
+
+    // IndexedDB is only available after mount
+    useEffect(() => {
+        loadHistory()
+            .then(setEntries)
+            .catch(() => setError('Past calculations could not be read from this browser.'));
+    }, [version]);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id].slice(-2));
+    };
+
+    const remove = async (id: string) => {
+        setError('');
+        try {
+            await deleteHistoryEntry(id);
+        } catch {
+            setError('The calculation could not be deleted from this browser.');
+            return;
+        }
+        setEntries(prev => prev.filter(entry => entry.id !== id));
+        setSelectedIds(prev => prev.filter(item => item !== id));
+    };
+
+    const clearAll = async () => {
+        if (!window.confirm('Delete every past calculation stored in this browser?')) return;
+        setError('');
+        try {
+            await clearHistory();
+        } catch {
+            setError('Past calculations could not be deleted from this browser.');
+            return;
+        }
+        setEntries([]);
+        setSelectedIds([]);
+    };
+
+    // Oldest first, so changes read from the earlier run to the later one
+    const [before, after] = entries
+        .filter(entry => selectedIds.includes(entry.id))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const inputChanges = before && after ? diffHistoryInputs(before.values, after.values) : [];
+
+    const formatMetric = (entry: HistoryEntry, key: keyof CalculationResult, unit: 'currency' | 'tons') => {
+        const value = entry.result[key] as number;
+        return unit === 'currency' ? formatCurrency(value, entry.values.locale) : `${value.toFixed(2)} t`;
+    };
+
+    return (
+        <div className="mt-8 sm:mt-10 lg:mt-12 space-y-4 sm:space-y-6">
+            <div className="pb-3 sm:pb-4 border-b border-gray-200 flex flex-col sm:flex-row sm:justify-between sm:items-end gap-3">
+                <div>
+                    <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800 flex items-center">
+                        <FaHistory className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                        History
+                    </h2>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                        Every calculation is kept in this browser, including offline. Open one to edit it, or pick two to
+                        see what changed.
+                    </p>
+                </div>
+                {entries.length > 0 && (
+                    <button
+                        onClick={clearAll}
+                        className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-all duration-200"
+                    >
+                        <FaTrash className="w-4 h-4 mr-2" />
+                        Clear History
+                    </button>
+                )}
+            </div>
+
+            {error && <p className="text-xs sm:text-sm text-red-500">{error}</p>}
+            {!error && entries.length === 0 && (
+                <p className="text-xs sm:text-sm text-gray-500">No calculations yet.</p>
+            )}
+
+            {entries.length > 0 && (
+                <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-100 bg-white shadow-sm">
+                    {entries.map(entry => (
+                        <li key={entry.id} className="flex flex-wrap items-center gap-2 sm:gap-3 px-3 py-2 sm:px-4 sm:py-3">
+                            <label className="flex items-center flex-1 min-w-0 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.includes(entry.id)}
+                                    onChange={() => toggleSelected(entry.id)}
+                                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="truncate">
+                                    {formatDate(entry.createdAt)}
+                                    <span className="ml-2 text-xs text-gray-400">
+                                        {OWNERSHIP_MODELS[entry.values.ownership].label}, {POWERTRAINS[entry.values.powertrain].label}
+                                    </span>
+                                </span>
+                            </label>
+                            <span className={`text-sm ${entry.result.monthlySavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {formatCurrency(entry.result.monthlySavings, entry.values.locale)}/month
+                            </span>
+                            <div className="flex space-x-1">
+                                <button
+                                    onClick={() => onOpen(entry)}
+                                    title="Open in the form"
+                                    className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                                >
+                                    <FaFolderOpen className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => remove(entry.id)}
+                                    title="Delete"
+                                    className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                                >
+                                    <FaTrash className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {before && after && (
+                <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md space-y-4 overflow-x-auto">
+                    <table className="w-full text-xs sm:text-sm text-gray-600">
+                        <caption className="text-left font-semibold text-gray-700 pb-2">Changed Inputs</caption>
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b border-gray-100">
+                                <th scope="col" className="py-2 pr-3 font-medium">Input</th>
+                                <th scope="col" className="py-2 pr-3 font-medium text-right">{formatDate(before.createdAt)}</th>
+                                <th scope="col" className="py-2 font-medium text-right">{formatDate(after.createdAt)}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {inputChanges.length === 0 && (
+                                <tr>
+                                    <td colSpan={3} className="py-2 text-gray-500">Both runs used the same inputs.</td>
+                                </tr>
+                            )}
+                            {inputChanges.map(change => (
+                                <tr key={change.field} className="border-b border-gray-50">
+                                    <th scope="row" className="py-2 pr-3 font-normal text-left">{change.field}</th>
+                                    <td className="py-2 pr-3 text-right">{change.before || '—'}</td>
+                                    <td className="py-2 text-right">{change.after || '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <table className="w-full text-xs sm:text-sm text-gray-600">
+                        <caption className="text-left font-semibold text-gray-700 pb-2">Results</caption>
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b border-gray-100">
+                                <th scope="col" className="py-2 pr-3 font-medium">Metric</th>
+                                <th scope="col" className="py-2 pr-3 font-medium text-right">{formatDate(before.createdAt)}</th>
+                                <th scope="col" className="py-2 font-medium text-right">{formatDate(after.createdAt)}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {RESULT_METRICS.map(metric => (
+                                <tr
+                                    key={metric.key}
+                                    className={`border-b border-gray-50 ${before.result[metric.key] !== after.result[metric.key] ? 'font-semibold text-gray-900' : ''}`}
+                                >
+                                    <th scope="row" className="py-2 pr-3 font-normal text-left">{metric.label}</th>
+                                    <td className="py-2 pr-3 text-right">{formatMetric(before, metric.key, metric.unit)}</td>
+                                    <td className="py-2 text-right">{formatMetric(after, metric.key, metric.unit)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
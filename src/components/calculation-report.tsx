@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaArrowLeft, FaPrint } from 'react-icons/fa';
+import {
+    CalculationResult,
+    CalculatorInput,
+    POWERTRAINS,
+    calculateCosts,
+    isValid,
+    parseFormValues,
+    summarizeResult,
+    validateForm,
+} from '@/lib/calculator';
+import { ChartType, ViewMode, decodeShareState } from '@/lib/share-state';
+import ResultCards from '@/components/result-cards';
+import ResultCharts from '@/components/result-charts';
+
+type ReportState =
+    | { status: 'loading' }
+    | { status: 'invalid' }
+    | { status: 'ready'; input: CalculatorInput; result: CalculationResult; viewMode: ViewMode };
+
+export default function CalculationReport() {
+    const [report, setReport] = useState<ReportState>({ status: 'loading' });
+    const [chartType, setChartType] = useState<ChartType>('line');
+    const [calculatorLink, setCalculatorLink] = useState('/');
+
+    // The report is built from the same query string as a shared link
+    useEffect(() => {
+        const shared = decodeShareState(window.location.search);
+        setCalculatorLink(`/${window.location.search}`);
+        setChartType(shared.chartType);
+
+        const errors = { ...validateForm(shared.values), ...shared.errors };
+        if (!shared.hasValues || !isValid(errors)) {
+            setReport({ status: 'invalid' });
+            return;
+        }
+        const input = parseFormValues(shared.values);
+        setReport({ status: 'ready', input, result: calculateCosts(input), viewMode: shared.viewMode });
+    }, []);
+
+    if (report.status === 'loading') return null;
+
+    if (report.status === 'invalid') {
+        return (
+            <div className="max-w-3xl mx-auto bg-white rounded-xl shadow-lg p-6 sm:p-8 text-center space-y-4">
+                <p className="text-gray-700">This report link is missing inputs or has invalid values.</p>
+                <a href={calculatorLink} className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium">
+                    <FaArrowLeft className="w-4 h-4 mr-2" />
+                    Open in the calculator
+                </a>
+            </div>
+        );
+    }
+
+    const { input, result, viewMode } = report;
+
+    return (
+        <div className="max-w-5xl mx-auto bg-white rounded-xl shadow-lg print:shadow-none print:rounded-none p-4 sm:p-6 lg:p-8 space-y-6 sm:space-y-8">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-3 pb-4 border-b border-gray-200">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Buy vs Commute Report</h1>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {POWERTRAINS[input.powertrain].label} car against public transport · Prepared{' '}
+                        {new Date().toLocaleDateString()}
+                    </p>
+                </div>
+                <div className="flex gap-2 print:hidden">
+                    <a
+                        href={calculatorLink}
+                        className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-white hover:bg-gray-50 border border-gray-200 rounded-lg"
+                    >
+                        <FaArrowLeft className="w-4 h-4 mr-2" />
+                        Edit Inputs
+                    </a>
+                    <button
+                        onClick={() => window.print()}
+                        className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-md"
+                    >
+                        <FaPrint className="w-4 h-4 mr-2" />
+                        Print / Save as PDF
+                    </button>
+                </div>
+            </div>
+
+            <section className="break-inside-avoid">
+                <h2 className="text-lg font-bold text-gray-800 mb-3">Summary</h2>
+                <ul className="list-disc pl-5 space-y-2 text-gray-700">
+                    {summarizeResult(input, result).map(sentence => (
+                        <li key={sentence}>{sentence}</li>
+                    ))}
+                </ul>
+            </section>
+
+            <section>
+                <h2 className="text-lg font-bold text-gray-800 mb-3">
+                    {viewMode === 'monthly' ? 'Monthly' : 'Yearly'} Costs
+                </h2>
+                <ResultCards result={result} locale={input.locale} viewMode={viewMode} />
+            </section>
+
+            <section className="print:break-before-page">
+                <ResultCharts result={result} locale={input.locale} chartType={chartType} onChartTypeChange={setChartType} />
+            </section>
+        </div>
+    );
+}
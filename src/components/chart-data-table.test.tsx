@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, render, screen, within } from '@testing-library/react';
+import { axe } from 'vitest-axe';
+import ChartDataTable from './chart-data-table';
+
+afterEach(cleanup);
+
+describe('ChartDataTable', () => {
+    it('names the table after its chart and labels every row and column', async () => {
+        const { container } = render(
+            <ChartDataTable
+                caption="Monthly cost breakdown"
+                headers={['Category', 'Cost']}
+                rows={[['Fuel', '₹5,867'], ['Insurance', '₹2,000']]}
+            />
+        );
+        const table = screen.getByRole('table', { name: 'Monthly cost breakdown' });
+
+        expect(within(table).getAllByRole('columnheader').map(cell => cell.textContent)).toEqual(['Category', 'Cost']);
+        expect(within(table).getAllByRole('rowheader').map(cell => cell.textContent)).toEqual(['Fuel', 'Insurance']);
+        expect(within(table).getByRole('cell', { name: '₹2,000' })).toBeTruthy();
+        expect((await axe(container)).violations).toEqual([]);
+    });
+});
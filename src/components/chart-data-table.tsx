@@ -0,0 +1,42 @@
+'use client';
+
+interface ChartDataTableProps {
+    /** Names the chart the table stands in for */
+    caption: string;
+    headers: string[];
+    /** Formatted cells; the first cell of each row labels it */
+    rows: string[][];
+}
+
+/** The data behind a chart as a table, for screen readers and anyone who prefers exact figures */
+export default function ChartDataTable({ caption, headers, rows }: ChartDataTableProps) {
+    return (
+        <details className="mt-3 sm:mt-4">
+            <summary className="cursor-pointer text-xs sm:text-sm font-medium text-gray-600">View data as a table</summary>
+            <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-xs sm:text-sm text-gray-600">
+                    <caption className="sr-only">{caption}</caption>
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-100">
+                            {headers.map((header, index) => (
+                                <th key={header} scope="col" className={`py-1 pr-2 font-medium ${index > 0 ? 'text-right' : ''}`}>
+                                    {header}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(([label, ...cells], index) => (
+                            <tr key={index} className="border-b border-gray-50">
+                                <th scope="row" className="py-1 pr-2 font-normal text-left">{label}</th>
+                                {cells.map((cell, cellIndex) => (
+                                    <td key={cellIndex} className="py-1 pr-2 text-right">{cell}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { FaPlus, FaTrash, FaRoute } from 'react-icons/fa';
+import {
+    COMMUTE_MODE_LABELS,
+    CURRENCIES,
+    CommuteLegField,
+    CommuteLegValues,
+    CommuteMode,
+    FareType,
+    FormErrors,
+    LocaleSettings,
+    UNIT_SYSTEMS,
+    createCommuteLeg,
+} from '@/lib/calculator';
+import { createId } from '@/lib/create-id';
+
+interface CommuteBuilderProps {
+    legs: CommuteLegValues[];
+    locale: LocaleSettings;
+    errors: FormErrors;
+    onChange: (legs: CommuteLegValues[]) => void;
+    onFieldChange: (index: number, field: CommuteLegField, value: string) => void;
+}
+
+const LEG_INPUTS: { field: CommuteLegField; label: string; unit: (leg: CommuteLegValues, locale: LocaleSettings) => string }[] = [
+    {
+        field: 'cost',
+        label: 'Fare',
+        unit: (leg, locale) => `${CURRENCIES[locale.currency].symbol}/${leg.fareType === 'monthly-pass' ? 'month' : 'trip'}`,
+    },
+    { field: 'distance', label: 'Distance', unit: (_, locale) => UNIT_SYSTEMS[locale.units].distance },
+    { field: 'tripsPerDay', label: 'Trips', unit: () => 'per day' },
+];
+
+export default function CommuteBuilder({ legs, locale, errors, onChange, onFieldChange }: CommuteBuilderProps) {
+    const updateLeg = (index: number, changes: Partial<CommuteLegValues>) => {
+        onChange(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+    };
+
+    return (
+        <div className="mb-4 sm:mb-6">
+            <div className="flex items-center justify-between mb-1">
+                <span className="text-xs sm:text-sm font-semibold text-gray-700 flex items-center">
+                    <FaRoute className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5" />
+                    Commute Legs
+                </span>
+                <button
+                    onClick={() => onChange([...legs, createCommuteLeg(createId())])}
+                    className="inline-flex items-center px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all duration-200"
+                >
+                    <FaPlus className="w-3 h-3 mr-1" />
+                    Add Leg
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+                {legs.length > 0
+                    ? 'Legs replace the monthly public transport cost above'
+                    : 'Optionally break your commute into legs, e.g. an auto to the station and a metro pass'}
+            </p>
+            <div className="space-y-3">
+                {legs.map((leg, index) => (
+                    <div key={leg.id} className="rounded-lg border-2 border-gray-200 p-3 space-y-2">
+                        <div className="flex gap-2">
+                            <select
+                                aria-label={`Leg ${index + 1} mode`}
+                                value={leg.mode}
+                                onChange={(e) => updateLeg(index, { mode: e.target.value as CommuteMode })}
+                                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-xs sm:text-sm focus:border-blue-500"
+                            >
+                                {Object.entries(COMMUTE_MODE_LABELS).map(([mode, label]) => (
+                                    <option key={mode} value={mode}>{label}</option>
+                                ))}
+                            </select>
+                            <select
+                                aria-label={`Leg ${index + 1} fare`}
+                                value={leg.fareType}
+                                onChange={(e) => updateLeg(index, { fareType: e.target.value as FareType })}
+                                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-xs sm:text-sm focus:border-blue-500"
+                            >
+                                <option value="per-trip">Pay per trip</option>
+                                <option value="monthly-pass">Monthly pass</option>
+                            </select>
+                            <button
+                                onClick={() => onChange(legs.filter((_, i) => i !== index))}
+                                title="Remove leg"
+                                className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                            >
+                                <FaTrash className="w-3 h-3 sm:w-4 sm:h-4" />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            {LEG_INPUTS.map(({ field, label, unit }) => {
+                                const error = errors[`commuteLegs.${index}.${field}`];
+                                return (
+                                    <label key={field} className="text-xs text-gray-500">
+                                        {label} <span className="text-gray-400">({unit(leg, locale)})</span>
+                                        <input
+                                            type="text"
+                                            inputMode="decimal"
+                                            value={leg[field]}
+                                            onChange={(e) => onFieldChange(index, field, e.target.value)}
+                                            className={`mt-1 block w-full rounded-lg border-2 text-sm ${
+                                                error ? 'border-red-500' : 'border-gray-200'
+                                            } bg-white px-2 py-1.5 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-30`}
+                                            placeholder="0"
+                                            autoComplete="off"
+                                        />
+                                        {error && <span className="block mt-1 text-red-500">{error}</span>}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
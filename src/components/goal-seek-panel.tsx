@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { FaCrosshairs } from 'react-icons/fa';
+import ChartDataTable from './chart-data-table';
+import {
+    CalculatorField,
+    CalculatorInput,
+    GoalSeekResult,
+    GoalSeekTarget,
+    SENSITIVITY_INPUTS,
+    UNIT_SYSTEMS,
+    formatCompactNumber,
+    formatCurrency,
+    getVariableInputs,
+    solveBreakEven,
+} from '@/lib/calculator';
+
+const CURRENCY_FIELDS: CalculatorField[] = [
+    'carPrice', 'fuelPrice', 'homeChargingTariff', 'maintenanceCosts', 'insuranceCosts', 'parkingCosts',
+    'resaleValue', 'publicTransportCosts', 'subscriptionFee',
+];
+
+interface GoalSeekPanelProps {
+    values: CalculatorInput;
+    onSolve: (result: GoalSeekResult) => void;
+}
+
+export default function GoalSeekPanel({ values, onSolve }: GoalSeekPanelProps) {
+    const solvableInputs = getVariableInputs(values);
+    const defaultField = solvableInputs.find(input => input.field === 'distanceToWork')?.field ?? solvableInputs[0]?.field ?? 'carPrice';
+    const [chosenField, setField] = useState<CalculatorField>(defaultField);
+    // A new powertrain, ownership or depreciation model can rule out the chosen input
+    const field = solvableInputs.some(input => input.field === chosenField) ? chosenField : defaultField;
+    const [target, setTarget] = useState<GoalSeekTarget>('monthly');
+
+    const result = useMemo(() => solveBreakEven(values, field, target), [values, field, target]);
+    useEffect(() => onSolve(result), [result, onSolve]);
+
+    const units = UNIT_SYSTEMS[values.locale.units];
+    const label = SENSITIVITY_INPUTS.find(input => input.field === field)?.label ?? field;
+    const formatMoney = (value: number) => formatCurrency(value, values.locale);
+    const formatInput = (value: number) => {
+        if (CURRENCY_FIELDS.includes(field)) return formatMoney(value);
+        const suffix: Partial<Record<CalculatorField, string>> = {
+            distanceToWork: ` ${units.distance}`,
+            interestRate: '%',
+            workingDaysPerMonth: ' days',
+            resaleYears: ' years',
+            sharingHoursPerMonth: ' hours',
+        };
+        return `${formatCompactNumber(value, values.locale.numberSystem)}${suffix[field] ?? ''}`;
+    };
+
+    const period = target === 'monthly' ? 'each month' : `over ${values.resaleYears} years`;
+    const savingsAtMax = result.curve[result.curve.length - 1].commute - result.curve[result.curve.length - 1].car;
+    const savingsAtMin = result.curve[0].commute - result.curve[0].car;
+    const verdict = result.value !== null
+        ? `Both options cost the same ${period} when ${label.toLowerCase()} is ${formatInput(result.value)} ` +
+          `(now ${formatInput(values[field])}). ${savingsAtMax > 0 ? 'Above' : 'Below'} that, the car works out cheaper.`
+        : `${savingsAtMin > 0 ? 'The car' : 'Public transport'} stays cheaper ${period} for any ${label.toLowerCase()} ` +
+          `between ${formatInput(result.min)} and ${formatInput(result.max)}, so there is no break-even.`;
+
+    return (
+        <div className="mt-6 sm:mt-8 bg-white rounded-lg p-4 sm:p-6 shadow-md">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6 gap-3">
+                <h3 className="text-base sm:text-lg font-bold flex items-center">
+                    <FaCrosshairs className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                    What Would Make It Worth It?
+                </h3>
+                <div className="flex flex-wrap gap-2 text-xs sm:text-sm">
+                    <select
+                        aria-label="Input to solve for"
+                        value={field}
+                        onChange={(e) => setField(e.target.value as CalculatorField)}
+                        className="rounded-lg border-2 border-gray-200 bg-white px-2 py-1 focus:border-blue-500"
+                    >
+                        {solvableInputs.map(input => (
+                            <option key={input.field} value={input.field}>{input.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        aria-label="Cost to compare"
+                        value={target}
+                        onChange={(e) => setTarget(e.target.value as GoalSeekTarget)}
+                        className="rounded-lg border-2 border-gray-200 bg-white px-2 py-1 focus:border-blue-500"
+                    >
+                        <option value="monthly">Monthly cost</option>
+                        <option value="total">Total over {values.resaleYears} years</option>
+                    </select>
+                </div>
+            </div>
+
+            <p className="text-sm text-gray-700 mb-4">{verdict}</p>
+
+            <div
+                className="h-[260px] sm:h-[320px]"
+                role="img"
+                aria-label={`Line chart of car and public transport costs as ${label.toLowerCase()} changes. ${verdict}`}
+            >
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={result.curve} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                            dataKey="value"
+                            type="number"
+                            domain={[result.min, result.max]}
+                            tickFormatter={formatInput}
+                            tick={{ fontSize: 11 }}
+                        />
+                        <YAxis tickFormatter={formatMoney} tick={{ fontSize: 11 }} width={80} />
+                        <Tooltip labelFormatter={(value) => formatInput(Number(value))} formatter={(value) => formatMoney(Number(value))} />
+                        <Legend />
+                        <Line type="monotone" dataKey="car" name="Car" stroke="#0088FE" dot={false} />
+                        <Line type="monotone" dataKey="commute" name="Public Transport" stroke="#00C49F" dot={false} />
+                        <ReferenceLine x={values[field]} stroke="#9CA3AF" label={{ value: 'Now', position: 'top', fontSize: 11 }} />
+                        {result.value !== null && (
+                            <ReferenceLine
+                                x={result.value}
+                                stroke="#EF4444"
+                                strokeDasharray="4 4"
+                                label={{ value: 'Break-even', position: 'insideTopRight', fill: '#EF4444', fontSize: 11 }}
+                            />
+                        )}
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+            <ChartDataTable
+                caption={`Car and public transport costs by ${label.toLowerCase()}`}
+                headers={[label, 'Car', 'Public Transport']}
+                rows={result.curve.map(point => [formatInput(point.value), formatMoney(point.car), formatMoney(point.commute)])}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useMemo } from 'react';
+import { FaHourglassHalf } from 'react-icons/fa';
+import { CalculatorInput, DEPRECIATION_MODELS, compareHoldingPeriods, formatCurrency } from '@/lib/calculator';
+
+const MAX_YEARS = 10;
+
+export default function HoldingPeriods({ values }: { values: CalculatorInput }) {
+    const periods = useMemo(() => compareHoldingPeriods(values, MAX_YEARS), [values]);
+    const formatMoney = (value: number) => formatCurrency(value, values.locale);
+    const cheapest = periods.reduce((best, period) => (period.monthlyCarCost < best.monthlyCarCost ? period : best));
+
+    return (
+        <div className="mt-6 sm:mt-8 bg-white rounded-lg p-4 sm:p-6 shadow-md">
+            <h3 className="text-base sm:text-lg font-bold flex items-center mb-2">
+                <FaHourglassHalf className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                When to Sell
+            </h3>
+            <p className="text-xs sm:text-sm text-gray-500 mb-4">
+                Expected resale and average monthly cost for each holding period, using {DEPRECIATION_MODELS[values.depreciationModel].label.toLowerCase()}
+                {' '}depreciation. Selling after {cheapest.years} year{cheapest.years === 1 ? '' : 's'} costs the least each month.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs sm:text-sm text-gray-600">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-100">
+                            <th className="py-1 pr-2 font-medium">Sell After</th>
+                            <th className="py-1 pr-2 font-medium text-right">Expected Resale</th>
+                            <th className="py-1 pr-2 font-medium text-right">Monthly Car Cost</th>
+                            <th className="py-1 font-medium text-right">Monthly Savings</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {periods.map(period => (
+                            <tr
+                                key={period.years}
+                                className={`border-b border-gray-50 ${period.years === cheapest.years ? 'bg-green-50 font-semibold text-gray-900' : ''}`}
+                            >
+                                <td className="py-1 pr-2">
+                                    {period.years} year{period.years === 1 ? '' : 's'}
+                                    {period.years === values.resaleYears && <span className="ml-1 text-gray-400 font-normal">(planned)</span>}
+                                </td>
+                                <td className="py-1 pr-2 text-right">{formatMoney(period.resaleValue)}</td>
+                                <td className="py-1 pr-2 text-right">{formatMoney(period.monthlyCarCost)}</td>
+                                <td className={`py-1 text-right ${period.monthlySavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {formatMoney(period.monthlySavings)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,385 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaCar, FaHome, FaPlus, FaRoute, FaTrash, FaUser } from 'react-icons/fa';
+import {
+    CURRENCIES,
+    CalculatorFormValues,
+    HouseholdCar,
+    HouseholdMemberField,
+    HouseholdMemberValues,
+    HouseholdTripField,
+    HouseholdTripValues,
+    UNIT_SYSTEMS,
+    calculateHousehold,
+    createHouseholdMember,
+    createHouseholdTrip,
+    formatCount,
+    formatCurrency,
+    isValid,
+    parseFormValues,
+    parseHouseholdMember,
+    parseHouseholdTrip,
+    validateForm,
+} from '@/lib/calculator';
+import { createId } from '@/lib/create-id';
+import { Household, HouseholdCarChoice, MAX_HOUSEHOLD_CARS, createHousehold, loadHouseholds, saveHouseholds } from '@/lib/households';
+import { Scenario } from '@/lib/scenarios';
+
+const NUMBER_PATTERN = /^\d*\.?\d*$/;
+
+interface HouseholdPlannerProps {
+    formData: CalculatorFormValues;
+    /** Saved scenarios, which a car can take its inputs from */
+    scenarios: Scenario[];
+}
+
+export default function HouseholdPlanner({ formData, scenarios }: HouseholdPlannerProps) {
+    const [households, setHouseholds] = useState<Household[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+
+    // Browser storage is only available after mount
+    useEffect(() => {
+        const stored = loadHouseholds();
+        setHouseholds(stored);
+        setActiveId(stored[0]?.id ?? null);
+    }, []);
+
+    const updateHouseholds = (next: Household[]) => {
+        setHouseholds(next);
+        saveHouseholds(next);
+    };
+
+    const household = households.find(item => item.id === activeId);
+    const { locale } = formData;
+    const units = UNIT_SYSTEMS[locale.units];
+    const currencySymbol = CURRENCIES[locale.currency].symbol;
+    const formatMoney = (value: number) => formatCurrency(value, locale);
+
+    const update = (changes: Partial<Household>) => {
+        if (!household) return;
+        updateHouseholds(households.map(item =>
+            item.id === household.id ? { ...item, ...changes, updatedAt: new Date().toISOString() } : item
+        ));
+    };
+
+    const addHousehold = () => {
+        const next = createHousehold(`Household ${households.length + 1}`);
+        updateHouseholds([...households, next]);
+        setActiveId(next.id);
+    };
+
+    const removeHousehold = () => {
+        if (!household) return;
+        const next = households.filter(item => item.id !== household.id);
+        updateHouseholds(next);
+        setActiveId(next[0]?.id ?? null);
+    };
+
+    const updateMember = (id: string, changes: Partial<HouseholdMemberValues>) =>
+        update({ members: household?.members.map(member => (member.id === id ? { ...member, ...changes } : member)) });
+    const updateTrip = (id: string, changes: Partial<HouseholdTripValues>) =>
+        update({ trips: household?.trips.map(trip => (trip.id === id ? { ...trip, ...changes } : trip)) });
+    const updateCar = (id: string, changes: Partial<HouseholdCarChoice>) =>
+        update({ cars: household?.cars.map(car => (car.id === id ? { ...car, ...changes } : car)) });
+
+    const removeCar = (id: string) => {
+        if (!household) return;
+        // Whoever drove the car goes back to public transport
+        update({
+            cars: household.cars.filter(car => car.id !== id),
+            members: household.members.map(member => (member.carId === id ? { ...member, carId: null } : member)),
+            trips: household.trips.map(trip => (trip.carId === id ? { ...trip, carId: null } : trip)),
+        });
+    };
+
+    // Each car is costed with the form's inputs or a saved scenario's, if they're complete
+    const carValues = (car: HouseholdCarChoice) => {
+        const values = car.scenarioId === null
+            ? formData
+            : scenarios.find(scenario => scenario.id === car.scenarioId)?.values;
+        return values && isValid(validateForm(values)) ? parseFormValues(values) : null;
+    };
+
+    const incompleteCars = household?.cars.filter(car => carValues(car) === null) ?? [];
+    const result = household && calculateHousehold(
+        household.members.map(parseHouseholdMember),
+        household.trips.map(parseHouseholdTrip),
+        household.cars
+            .map(car => ({ id: car.id, name: car.name, values: carValues(car) }))
+            .filter((car): car is HouseholdCar => car.values !== null),
+        locale
+    );
+
+    const numberInput = (label: string, unit: string, value: string, onChange: (value: string) => void) => (
+        <label className="text-xs text-gray-500">
+            {label} <span className="text-gray-400">({unit})</span>
+            <input
+                type="text"
+                inputMode="decimal"
+                value={value}
+                onChange={e => {
+                    if (NUMBER_PATTERN.test(e.target.value)) onChange(e.target.value);
+                }}
+                placeholder="0"
+                autoComplete="off"
+                className="mt-1 block w-full rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-30"
+            />
+        </label>
+    );
+
+    const carSelect = (label: string, value: string | null, onChange: (carId: string | null) => void) => (
+        <select
+            aria-label={label}
+            value={value ?? ''}
+            onChange={e => onChange(e.target.value || null)}
+            className="rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-xs sm:text-sm focus:border-blue-500"
+        >
+            <option value="">Public transport</option>
+            {household?.cars.map(car => <option key={car.id} value={car.id}>{car.name}</option>)}
+        </select>
+    );
+
+    const textInput = (label: string, value: string, placeholder: string, onChange: (value: string) => void) => (
+        <input
+            aria-label={label}
+            type="text"
+            value={value}
+            placeholder={placeholder}
+            onChange={e => onChange(e.target.value)}
+            className="flex-1 min-w-0 rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-sm focus:border-blue-500"
+        />
+    );
+
+    const removeButton = (title: string, onClick: () => void) => (
+        <button onClick={onClick} title={title} className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50">
+            <FaTrash className="w-3 h-3 sm:w-4 sm:h-4" />
+        </button>
+    );
+
+    const addButton = (label: string, onClick: () => void, disabled = false) => (
+        <button
+            onClick={onClick}
+            disabled={disabled}
+            className="inline-flex items-center px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all duration-200 disabled:opacity-50"
+        >
+            <FaPlus className="w-3 h-3 mr-1" />
+            {label}
+        </button>
+    );
+
+    const memberInputs: { field: HouseholdMemberField; label: string; unit: string }[] = [
+        { field: 'distanceToWork', label: 'Distance', unit: `${units.distance} one way` },
+        { field: 'workingDaysPerMonth', label: 'Office Days', unit: 'per month' },
+        { field: 'publicTransportCosts', label: 'Transit Cost', unit: `${currencySymbol}/month` },
+        { field: 'carTravelMinutes', label: 'By Car', unit: 'min one way' },
+        { field: 'transitTravelMinutes', label: 'By Transit', unit: 'min one way' },
+    ];
+    const tripInputs: { field: HouseholdTripField; label: string; unit: string }[] = [
+        { field: 'distance', label: 'Distance', unit: `${units.distance} round trip` },
+        { field: 'tripsPerMonth', label: 'Trips', unit: 'per month' },
+        { field: 'transitFare', label: 'Without a Car', unit: `${currencySymbol}/trip` },
+    ];
+
+    const totalsRows = result && [
+        { label: 'Monthly cost', withCars: formatMoney(result.totals.monthlyCost), withoutCars: formatMoney(result.withoutCars.monthlyCost) },
+        {
+            label: 'Hours commuting a year',
+            withCars: formatCount(result.totals.hoursPerYear, locale.numberSystem),
+            withoutCars: formatCount(result.withoutCars.hoursPerYear, locale.numberSystem),
+        },
+        {
+            label: 'CO2 a year',
+            withCars: `${result.totals.yearlyEmissions.toFixed(2)} t`,
+            withoutCars: `${result.withoutCars.yearlyEmissions.toFixed(2)} t`,
+        },
+    ];
+
+    return (
+        <div className="mt-8 sm:mt-10 lg:mt-12 space-y-4 sm:space-y-6">
+            <div className="pb-3 sm:pb-4 border-b border-gray-200">
+                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800 flex items-center">
+                    <FaHome className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                    Household
+                </h2>
+                <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                    Add everyone who commutes and any regular trips, then share zero, one or two cars between them.
+                    Cars use the calculator&apos;s inputs or a saved scenario&apos;s.
+                </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                {households.length > 0 && (
+                    <select
+                        aria-label="Household"
+                        value={activeId ?? ''}
+                        onChange={e => setActiveId(e.target.value)}
+                        className="rounded-lg border-2 border-gray-200 bg-white px-3 py-2 text-sm focus:border-blue-500"
+                    >
+                        {households.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                    </select>
+                )}
+                {household && textInput('Household name', household.name, 'Household name', name => update({ name }))}
+                <button
+                    onClick={addHousehold}
+                    className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-all duration-200 shadow-md"
+                >
+                    <FaPlus className="w-4 h-4 mr-2" />
+                    New Household
+                </button>
+                {household && removeButton('Delete household', removeHousehold)}
+            </div>
+
+            {household && (
+                <div className="space-y-6">
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs sm:text-sm font-semibold text-gray-700 flex items-center">
+                                <FaCar className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5" />
+                                Cars
+                            </span>
+                            {addButton(
+                                'Add Car',
+                                () => update({ cars: [...household.cars, { id: createId(), name: `Car ${household.cars.length + 1}`, scenarioId: null }] }),
+                                household.cars.length >= MAX_HOUSEHOLD_CARS
+                            )}
+                        </div>
+                        {household.cars.length === 0 && (
+                            <p className="text-xs text-gray-500">No cars: everyone goes by public transport.</p>
+                        )}
+                        {household.cars.map(car => (
+                            <div key={car.id} className="flex flex-wrap gap-2 items-center">
+                                {textInput('Car name', car.name, 'Car name', name => updateCar(car.id, { name }))}
+                                <select
+                                    aria-label={`Inputs for ${car.name}`}
+                                    value={car.scenarioId ?? ''}
+                                    onChange={e => updateCar(car.id, { scenarioId: e.target.value || null })}
+                                    className="rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-xs sm:text-sm focus:border-blue-500"
+                                >
+                                    <option value="">Calculator inputs</option>
+                                    {scenarios.map(scenario => <option key={scenario.id} value={scenario.id}>{scenario.name}</option>)}
+                                </select>
+                                {removeButton('Remove car', () => removeCar(car.id))}
+                            </div>
+                        ))}
+                        {incompleteCars.length > 0 && (
+                            <p className="text-xs text-red-500">
+                                {incompleteCars.map(car => car.name).join(' and ')} can&apos;t be costed until its inputs are complete
+                                and valid, so its drivers are counted on public transport.
+                            </p>
+                        )}
+                        {result && result.excludedCars.length > 0 && (
+                            <p className="text-xs text-amber-600">
+                                {result.excludedCars.map(car => car.name).join(' and ')} can&apos;t be added up with the
+                                household because its inputs are in a different currency or units, so its drivers are
+                                counted on public transport.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs sm:text-sm font-semibold text-gray-700 flex items-center">
+                                <FaUser className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5" />
+                                Commuters
+                            </span>
+                            {addButton('Add Commuter', () => update({
+                                members: [...household.members, createHouseholdMember(createId(), `Commuter ${household.members.length + 1}`)],
+                            }))}
+                        </div>
+                        {household.members.map(member => (
+                            <div key={member.id} className="rounded-lg border-2 border-gray-200 p-3 space-y-2">
+                                <div className="flex gap-2">
+                                    {textInput('Commuter name', member.name, 'Name', name => updateMember(member.id, { name }))}
+                                    {carSelect('How they commute', member.carId, carId => updateMember(member.id, { carId }))}
+                                    {removeButton('Remove commuter', () => update({
+                                        members: household.members.filter(item => item.id !== member.id),
+                                    }))}
+                                </div>
+                                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                                    {memberInputs.map(({ field, label, unit }) => (
+                                        <div key={field}>
+                                            {numberInput(label, unit, member[field], value => updateMember(member.id, { [field]: value }))}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs sm:text-sm font-semibold text-gray-700 flex items-center">
+                                <FaRoute className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5" />
+                                Other Regular Trips
+                            </span>
+                            {addButton('Add Trip', () => update({ trips: [...household.trips, createHouseholdTrip(createId())] }))}
+                        </div>
+                        {household.trips.map(trip => (
+                            <div key={trip.id} className="rounded-lg border-2 border-gray-200 p-3 space-y-2">
+                                <div className="flex gap-2">
+                                    {textInput('Trip name', trip.label, 'e.g. School run', label => updateTrip(trip.id, { label }))}
+                                    {carSelect('How the trip is made', trip.carId, carId => updateTrip(trip.id, { carId }))}
+                                    {removeButton('Remove trip', () => update({
+                                        trips: household.trips.filter(item => item.id !== trip.id),
+                                    }))}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {tripInputs.map(({ field, label, unit }) => (
+                                        <div key={field}>
+                                            {numberInput(label, unit, trip[field], value => updateTrip(trip.id, { [field]: value }))}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {result && totalsRows && (
+                        <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md space-y-4 text-sm text-gray-700">
+                            <table className="w-full">
+                                <thead>
+                                    <tr className="text-left text-xs text-gray-500">
+                                        <th className="font-medium pb-2"></th>
+                                        <th className="font-medium pb-2">
+                                            With {household.cars.length === 0 ? 'no car' : `${household.cars.length} car${household.cars.length === 1 ? '' : 's'}`}
+                                        </th>
+                                        <th className="font-medium pb-2">Everyone by Public Transport</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {totalsRows.map(row => (
+                                        <tr key={row.label} className="border-t border-gray-100">
+                                            <td className="py-1.5">{row.label}</td>
+                                            <td className="py-1.5 font-semibold">{row.withCars}</td>
+                                            <td className="py-1.5">{row.withoutCars}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className={`font-semibold ${result.monthlySavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {result.monthlySavings >= 0
+                                    ? `This setup saves the household ${formatMoney(result.monthlySavings)} a month.`
+                                    : `This setup costs the household ${formatMoney(-result.monthlySavings)} a month more.`}
+                            </p>
+                            <ul className="space-y-1 text-xs sm:text-sm text-gray-600">
+                                {result.cars.map(car => (
+                                    <li key={car.id}>
+                                        {car.name}: {formatMoney(car.result.totalCarCost)} a month for
+                                        {' '}{formatCount(car.distanceDriven, locale.numberSystem)} {units.distance} driven
+                                    </li>
+                                ))}
+                                {result.members.map(member => (
+                                    <li key={member.id}>
+                                        {member.name}: {member.car ? `drives ${member.car}` : `public transport, ${formatMoney(member.monthlyCost)} a month`},
+                                        {' '}{formatCount(member.hoursPerYear, locale.numberSystem)} hours a year
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
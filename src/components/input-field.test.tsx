@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import { axe } from 'vitest-axe';
+import InputField from './input-field';
+
+afterEach(cleanup);
+
+const renderField = (error?: string) =>
+    render(
+        <InputField
+            label="Car Price"
+            name="carPrice"
+            value="500000"
+            unit="₹"
+            help="On-road price of the car"
+            required
+            error={error}
+            numberSystem="indian"
+            onChange={() => undefined}
+        />
+    );
+
+describe('InputField', () => {
+    it('links the help text and amount in words to a valid input', async () => {
+        const { container } = renderField();
+        const input = screen.getByRole('textbox', { name: /Car Price/ });
+        const describedBy = input.getAttribute('aria-describedby')?.split(' ') ?? [];
+
+        expect(input.getAttribute('aria-invalid')).toBe('false');
+        expect(input.getAttribute('aria-required')).toBe('true');
+        expect(describedBy.map(id => document.getElementById(id)?.textContent)).toEqual([
+            'On-road price of the car',
+            expect.stringMatching(/lakh/i),
+        ]);
+        expect((await axe(container)).violations).toEqual([]);
+    });
+
+    it('marks an invalid input and reads out its error', async () => {
+        const { container } = renderField('Car price must be greater than 0');
+        const input = screen.getByRole('textbox', { name: /Car Price/ });
+        const describedBy = input.getAttribute('aria-describedby')?.split(' ') ?? [];
+
+        expect(input.getAttribute('aria-invalid')).toBe('true');
+        expect(describedBy.map(id => document.getElementById(id)?.textContent)).toEqual([
+            'On-road price of the car',
+            'Car price must be greater than 0',
+        ]);
+        expect((await axe(container)).violations).toEqual([]);
+    });
+});
@@ -0,0 +1,79 @@
+'use client';
+
+import { ChangeEvent, useId } from 'react';
+import { FaExclamationCircle } from 'react-icons/fa';
+import { CalculatorField, NumberSystem, convertToWords } from '@/lib/calculator';
+
+interface InputFieldProps {
+    label: string;
+    name: CalculatorField;
+    value: string;
+    unit: string;
+    help: string;
+    required: boolean;
+    error?: string;
+    numberSystem: NumberSystem;
+    onChange: (e: ChangeEvent<HTMLInputElement>) => void;
+}
+
+/**
+ * A numeric form field. The help text, any error and the amount in words are
+ * linked to the input so screen readers read them with its label. Invalid
+ * characters are dropped by `onChange`, so editing keys and paste still work.
+ */
+export default function InputField({ label, name, value, unit, help, required, error, numberSystem, onChange }: InputFieldProps) {
+    const id = useId();
+    const helpId = `${id}-help`;
+    const errorId = `${id}-error`;
+    const wordsId = `${id}-words`;
+    const words = value && !error ? convertToWords(value, numberSystem) : '';
+    const describedBy = [helpId, error ? errorId : '', words ? wordsId : ''].filter(Boolean).join(' ');
+
+    return (
+        <div className="relative mb-4 sm:mb-6">
+            <label htmlFor={id} className="block text-xs sm:text-sm font-semibold text-gray-700">
+                {label}
+                <span className="sr-only"> ({unit})</span>
+                {required && (
+                    <>
+                        <span className="text-red-500 ml-1" aria-hidden="true">*</span>
+                        <span className="sr-only"> (required)</span>
+                    </>
+                )}
+            </label>
+            <p id={helpId} className="text-xs text-gray-500 mb-1">{help}</p>
+            <div className="relative group">
+                <input
+                    id={id}
+                    type="text"
+                    inputMode="decimal"
+                    name={name}
+                    value={value}
+                    onChange={onChange}
+                    aria-required={required}
+                    aria-invalid={Boolean(error)}
+                    aria-describedby={describedBy}
+                    className={`block w-full rounded-lg border-2 text-sm sm:text-base ${
+                        error ? 'border-red-500' : 'border-gray-200 group-hover:border-blue-300'
+                    } bg-white px-3 py-2 sm:px-4 sm:py-3 pr-12 shadow-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-30 transition-all duration-200`}
+                    placeholder="0"
+                    autoComplete="off"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-xs sm:text-sm bg-white px-1" aria-hidden="true">
+                    {unit}
+                </span>
+            </div>
+            {error && (
+                <p id={errorId} className="mt-1 sm:mt-2 text-xs sm:text-sm text-red-600 flex items-center">
+                    <FaExclamationCircle className="w-3 h-3 sm:w-4 sm:h-4 mr-1" aria-hidden="true" />
+                    {error}
+                </p>
+            )}
+            {words && (
+                <p id={wordsId} className="mt-1 text-xs text-gray-500 italic">
+                    {words} {unit}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { FaGlobe } from 'react-icons/fa';
+import {
+    CURRENCIES,
+    CurrencyCode,
+    LocaleSettings as Locale,
+    NUMBER_SYSTEMS,
+    NumberSystem,
+    UNIT_SYSTEMS,
+    UnitSystem,
+} from '@/lib/calculator';
+import { REGIONS } from '@/lib/regions';
+
+interface LocaleSettingsProps {
+    locale: Locale;
+    onLocaleChange: (locale: Locale) => void;
+}
+
+const selectClassName = 'mt-1 block w-full rounded-lg border-2 border-gray-200 bg-white px-2 py-1.5 text-xs sm:text-sm focus:border-blue-500';
+
+export default function LocaleSettings({ locale, onLocaleChange }: LocaleSettingsProps) {
+    const region = REGIONS.find(item =>
+        item.locale.currency === locale.currency &&
+        item.locale.numberSystem === locale.numberSystem &&
+        item.locale.units === locale.units
+    );
+
+    return (
+        <div className="mb-6 sm:mb-8 rounded-lg border-2 border-gray-100 p-3 sm:p-4">
+            <div className="flex items-center mb-3 text-xs sm:text-sm font-semibold text-gray-700">
+                <FaGlobe className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5" />
+                Region & Units
+            </div>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-3">
+                <label className="text-xs text-gray-500">
+                    Region
+                    <select
+                        value={region?.id ?? ''}
+                        onChange={(e) => {
+                            const selected = REGIONS.find(item => item.id === e.target.value);
+                            if (selected) onLocaleChange(selected.locale);
+                        }}
+                        className={selectClassName}
+                    >
+                        {!region && <option value="">Custom</option>}
+                        {REGIONS.map(item => (
+                            <option key={item.id} value={item.id}>{item.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-xs text-gray-500">
+                    Currency
+                    <select
+                        value={locale.currency}
+                        onChange={(e) => onLocaleChange({ ...locale, currency: e.target.value as CurrencyCode })}
+                        className={selectClassName}
+                    >
+                        {Object.entries(CURRENCIES).map(([code, currency]) => (
+                            <option key={code} value={code}>{currency.symbol} {currency.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-xs text-gray-500">
+                    Number Format
+                    <select
+                        value={locale.numberSystem}
+                        onChange={(e) => onLocaleChange({ ...locale, numberSystem: e.target.value as NumberSystem })}
+                        className={selectClassName}
+                    >
+                        {Object.entries(NUMBER_SYSTEMS).map(([system, info]) => (
+                            <option key={system} value={system}>{info.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-xs text-gray-500">
+                    Units
+                    <select
+                        value={locale.units}
+                        onChange={(e) => onLocaleChange({ ...locale, units: e.target.value as UnitSystem })}
+                        className={selectClassName}
+                    >
+                        {Object.entries(UNIT_SYSTEMS).map(([units, info]) => (
+                            <option key={units} value={units}>{info.label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+                Changing units doesn&apos;t convert values already entered
+            </p>
+        </div>
+    );
+}
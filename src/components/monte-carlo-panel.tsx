@@ -0,0 +1,239 @@
+'use client';
+
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { FaDice } from 'react-icons/fa';
+import ChartDataTable from './chart-data-table';
+import {
+    CalculatorField,
+    CalculatorInput,
+    Distributions,
+    MONTE_CARLO_INPUTS,
+    MonteCarloResult,
+    formatCount,
+    formatCurrency,
+    isFieldApplicable,
+    runMonteCarlo,
+} from '@/lib/calculator';
+
+const RUN_OPTIONS = [1000, 5000, 10000];
+
+const BOUND_LABELS = { min: 'minimum', mode: 'most likely', max: 'maximum' };
+
+type DistributionValues = Record<'min' | 'mode' | 'max', string>;
+
+// Start each estimate at ±20% of the current input; growth rates get a wider band
+const initialDistribution = (field: CalculatorField, value: number): DistributionValues => {
+    const isRate = field === 'fuelInflation' || field === 'transitInflation';
+    const spread = isRate ? 3 : value * 0.2;
+    return {
+        min: Math.max(value - spread, 0).toFixed(2),
+        mode: String(value),
+        max: (value + spread).toFixed(2),
+    };
+};
+
+export default function MonteCarloPanel({ values }: { values: CalculatorInput }) {
+    const [distributions, setDistributions] = useState<Partial<Record<CalculatorField, DistributionValues>>>({});
+    const [runs, setRuns] = useState(5000);
+    const [seed, setSeed] = useState('1');
+    const [error, setError] = useState('');
+    const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+    const formatMoney = (value: number) => formatCurrency(value, values.locale);
+    // Only inputs the calculation uses, as in the form
+    const applicableInputs = MONTE_CARLO_INPUTS.filter(({ field }) => isFieldApplicable(field, values));
+
+    const toggleInput = (field: CalculatorField) => {
+        setDistributions(prev => {
+            const next = { ...prev };
+            if (next[field]) {
+                delete next[field];
+            } else {
+                next[field] = initialDistribution(field, values[field]);
+            }
+            return next;
+        });
+    };
+
+    const updateDistribution = (field: CalculatorField, key: keyof DistributionValues, value: string) => {
+        if (value !== '' && !/^\d*\.?\d*$/.test(value)) return;
+        setDistributions(prev => ({ ...prev, [field]: { ...prev[field]!, [key]: value } }));
+    };
+
+    const simulate = () => {
+        const parsed: Distributions = {};
+        for (const [field, distribution] of Object.entries(distributions)) {
+            // A range set before the inputs changed may be for an input no longer used
+            if (!applicableInputs.some(input => input.field === field)) continue;
+            const min = parseFloat(distribution.min);
+            const mode = parseFloat(distribution.mode);
+            const max = parseFloat(distribution.max);
+            if ([min, mode, max].some(isNaN) || !(min <= mode && mode <= max)) {
+                const label = applicableInputs.find(input => input.field === field)?.label ?? field;
+                setError(`${label}: enter numbers where min ≤ most likely ≤ max`);
+                return;
+            }
+            parsed[field as CalculatorField] = { min, mode, max };
+        }
+
+        setError('');
+        setSimulation(runMonteCarlo(values, parsed, { runs, seed: parseInt(seed, 10) || 0 }));
+    };
+
+    const histogramData = simulation?.histogram.map(bin => ({
+        range: formatMoney((bin.from + bin.to) / 2),
+        Car: bin.car,
+        'Public Transport': bin.commute,
+    }));
+
+    return (
+        <div className="mt-6 sm:mt-8 bg-white rounded-lg p-4 sm:p-6 shadow-md space-y-4 sm:space-y-6">
+            <div>
+                <h3 className="text-base sm:text-lg font-bold flex items-center">
+                    <FaDice className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                    Risk Simulation
+                </h3>
+                <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                    Give uncertain inputs a range instead of a single number and simulate the total cost of each option
+                    over the ownership period
+                </p>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs sm:text-sm text-gray-600">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-100">
+                            <th className="py-2 pr-3 font-medium">Uncertain Input</th>
+                            <th className="py-2 pr-3 font-medium">Min</th>
+                            <th className="py-2 pr-3 font-medium">Most Likely</th>
+                            <th className="py-2 font-medium">Max</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {applicableInputs.map(({ field, label }) => {
+                            const distribution = distributions[field];
+                            return (
+                                <tr key={field} className="border-b border-gray-50">
+                                    <td className="py-2 pr-3">
+                                        <label className="flex items-center">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!distribution}
+                                                onChange={() => toggleInput(field)}
+                                                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            />
+                                            {label}
+                                        </label>
+                                    </td>
+                                    {(['min', 'mode', 'max'] as const).map(key => (
+                                        <td key={key} className="py-2 pr-3">
+                                            <input
+                                                aria-label={`${label} ${BOUND_LABELS[key]}`}
+                                                type="text"
+                                                inputMode="decimal"
+                                                disabled={!distribution}
+                                                value={distribution ? distribution[key] : ''}
+                                                onChange={(e) => updateDistribution(field, key, e.target.value)}
+                                                className="w-24 sm:w-28 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 disabled:bg-gray-50 focus:border-blue-500"
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs sm:text-sm text-gray-600">
+                <label className="flex items-center">
+                    Runs:
+                    <select
+                        value={runs}
+                        onChange={(e) => setRuns(Number(e.target.value))}
+                        className="ml-2 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 focus:border-blue-500"
+                    >
+                        {RUN_OPTIONS.map(option => (
+                            <option key={option} value={option}>{formatCount(option, values.locale.numberSystem)}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center">
+                    Seed:
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        value={seed}
+                        onChange={(e) => /^\d*$/.test(e.target.value) && setSeed(e.target.value)}
+                        className="ml-2 w-20 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 focus:border-blue-500"
+                    />
+                </label>
+                <button
+                    onClick={simulate}
+                    className="inline-flex items-center px-4 py-1.5 font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-all duration-200 shadow-md"
+                >
+                    Run Simulation
+                </button>
+            </div>
+            {error && <p className="text-xs sm:text-sm text-red-500">{error}</p>}
+
+            {simulation && histogramData && (
+                <div className="space-y-4 sm:space-y-6">
+                    <div className="bg-blue-50 rounded-lg p-4">
+                        <p className="text-blue-800 font-medium mb-1">Chance that buying beats commuting:</p>
+                        <p className="text-blue-600 text-2xl font-bold">{(simulation.probabilityBuyWins * 100).toFixed(1)}%</p>
+                        <p className="text-blue-600 text-xs mt-1">across {formatCount(simulation.runs, values.locale.numberSystem)} simulated outcomes</p>
+                    </div>
+                    <table className="w-full text-xs sm:text-sm text-gray-600">
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b border-gray-100">
+                                <th className="py-2 pr-3 font-medium">Total Cost of Ownership</th>
+                                <th className="py-2 pr-3 font-medium text-right">P10</th>
+                                <th className="py-2 pr-3 font-medium text-right">P50</th>
+                                <th className="py-2 font-medium text-right">P90</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[
+                                { label: 'Car', percentiles: simulation.car },
+                                { label: 'Public Transport', percentiles: simulation.commute },
+                            ].map(({ label, percentiles }) => (
+                                <tr key={label} className="border-b border-gray-50">
+                                    <td className="py-2 pr-3">{label}</td>
+                                    <td className="py-2 pr-3 text-right">{formatMoney(percentiles.p10)}</td>
+                                    <td className="py-2 pr-3 text-right">{formatMoney(percentiles.p50)}</td>
+                                    <td className="py-2 text-right">{formatMoney(percentiles.p90)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div
+                        className="h-[250px] sm:h-[300px]"
+                        role="img"
+                        aria-label="Histogram of simulated total costs for the car and public transport"
+                    >
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={histogramData} barGap={0}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                <XAxis dataKey="range" tick={{ fontSize: 11 }} />
+                                <YAxis allowDecimals={false} />
+                                <Tooltip
+                                    labelFormatter={(value) => `Around ${value}`}
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                                />
+                                <Legend />
+                                <Bar dataKey="Car" fill="#0088FE" />
+                                <Bar dataKey="Public Transport" fill="#00C49F" />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <ChartDataTable
+                        caption="Number of simulated outcomes by total cost"
+                        headers={['Total Cost', 'Car', 'Public Transport']}
+                        rows={histogramData.map(bin => [bin.range, String(bin.Car), String(bin['Public Transport'])])}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCheck, FaReceipt } from 'react-icons/fa';
+import {
+    CalculatorFormValues,
+    LocaleSettings,
+    OwnershipModel,
+    Powertrain,
+    formatCurrency,
+} from '@/lib/calculator';
+import {
+    GST_SLABS,
+    STATE_TAX_RULES,
+    TAX_RULES_VERSION,
+    applyOnRoadPrice,
+    buildOnRoadPrice,
+    defaultGstSlab,
+    getRoadTaxRate,
+    priceWithGst,
+} from '@/lib/on-road-price';
+
+interface OnRoadPriceBuilderProps {
+    powertrain: Powertrain;
+    ownership: OwnershipModel;
+    locale: LocaleSettings;
+    insurance: string;
+    onApply: (update: (values: CalculatorFormValues) => CalculatorFormValues) => void;
+}
+
+const NUMBER_PATTERN = /^\d*\.?\d*$/;
+
+export default function OnRoadPriceBuilder({ powertrain, ownership, locale, insurance, onApply }: OnRoadPriceBuilderProps) {
+    const [stateId, setStateId] = useState(STATE_TAX_RULES[0].id);
+    const [slabId, setSlabId] = useState<string | null>(null);
+    const [exShowroom, setExShowroom] = useState('');
+    // Empty overrides fall back to the state's rules
+    const [roadTaxOverride, setRoadTaxOverride] = useState('');
+    const [registrationOverride, setRegistrationOverride] = useState('');
+    const [insuranceOverride, setInsuranceOverride] = useState('');
+
+    const state = STATE_TAX_RULES.find(rule => rule.id === stateId) ?? STATE_TAX_RULES[0];
+    const slab = GST_SLABS.find(item => item.id === slabId) ?? defaultGstSlab(powertrain, ownership);
+    const exShowroomPrice = parseFloat(exShowroom) || 0;
+    const ruleRoadTax = getRoadTaxRate(state, powertrain, ownership, priceWithGst(exShowroomPrice, slab));
+    const roadTaxRate = roadTaxOverride === '' ? ruleRoadTax : parseFloat(roadTaxOverride) || 0;
+    const registrationFee = registrationOverride === '' ? state.registrationFee : parseFloat(registrationOverride) || 0;
+    const firstYearInsurance = parseFloat(insuranceOverride === '' ? insurance : insuranceOverride) || 0;
+    const price = buildOnRoadPrice({ exShowroomPrice, slab, roadTaxRate, registrationFee, insurance: firstYearInsurance });
+
+    const numberInput = (value: string, onChange: (value: string) => void, placeholder?: string) => (
+        <input
+            type="text"
+            inputMode="decimal"
+            value={value}
+            placeholder={placeholder}
+            onChange={e => {
+                if (NUMBER_PATTERN.test(e.target.value)) onChange(e.target.value);
+            }}
+            className="w-full px-3 py-1.5 text-sm border-2 border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+    );
+
+    return (
+        <details className="mb-4 sm:mb-6 rounded-lg border-2 border-gray-100 p-3 sm:p-4">
+            <summary className="cursor-pointer text-xs sm:text-sm font-semibold text-gray-700">
+                <FaReceipt className="inline w-3 h-3 sm:w-4 sm:h-4 mr-1.5 -mt-0.5" />
+                Build the On-Road Price
+            </summary>
+            <div className="mt-3 space-y-3 text-xs sm:text-sm text-gray-600">
+                <p className="text-xs text-gray-500">
+                    Starts from the price before GST and adds GST, cess, your state&apos;s road tax and registration. Rates
+                    are indicative ({TAX_RULES_VERSION}) and can be overridden.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="block text-xs font-semibold text-gray-700 mb-1">State</span>
+                        <select
+                            value={state.id}
+                            onChange={e => setStateId(e.target.value)}
+                            className="w-full px-3 py-1.5 text-sm border-2 border-gray-200 rounded-lg bg-white"
+                        >
+                            {STATE_TAX_RULES.map(rule => <option key={rule.id} value={rule.id}>{rule.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs font-semibold text-gray-700 mb-1">GST Slab</span>
+                        <select
+                            value={slab.id}
+                            onChange={e => setSlabId(e.target.value)}
+                            className="w-full px-3 py-1.5 text-sm border-2 border-gray-200 rounded-lg bg-white"
+                        >
+                            {GST_SLABS.map(item => (
+                                <option key={item.id} value={item.id}>{item.label} · {item.gst + item.cess}%</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs font-semibold text-gray-700 mb-1">Price before GST</span>
+                        {numberInput(exShowroom, setExShowroom)}
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs font-semibold text-gray-700 mb-1">Road Tax (%)</span>
+                        {numberInput(roadTaxOverride, setRoadTaxOverride, String(ruleRoadTax))}
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs font-semibold text-gray-700 mb-1">Registration</span>
+                        {numberInput(registrationOverride, setRegistrationOverride, String(state.registrationFee))}
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs font-semibold text-gray-700 mb-1">Insurance, First Year</span>
+                        {numberInput(insuranceOverride, setInsuranceOverride, insurance)}
+                    </label>
+                </div>
+
+                {exShowroomPrice > 0 && (
+                    <div className="rounded-lg bg-gray-50 p-3 space-y-1">
+                        {price.lines.map(line => (
+                            <p key={line.label} className="flex justify-between">
+                                <span>{line.label}</span>
+                                <span>{formatCurrency(line.amount, locale)}</span>
+                            </p>
+                        ))}
+                        <p className="flex justify-between pt-1 border-t border-gray-200 font-semibold text-gray-900">
+                            <span>On-road price</span>
+                            <span>{formatCurrency(price.onRoadPrice, locale)}</span>
+                        </p>
+                        <p className="text-xs text-gray-500 pt-1">
+                            The car price becomes {formatCurrency(price.carPrice, locale)}; insurance stays a yearly running cost.
+                        </p>
+                        <button
+                            onClick={() => onApply(values => applyOnRoadPrice(values, price, firstYearInsurance))}
+                            className="mt-2 inline-flex items-center px-3 py-1.5 font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-all duration-200 shadow-md"
+                        >
+                            <FaCheck className="w-3 h-3 mr-1.5" />
+                            Use as Car Price
+                        </button>
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaBook, FaCheck, FaSave, FaSearch, FaTrash } from 'react-icons/fa';
+import { CURRENCIES, CalculatorFormValues, POWERTRAINS, UNIT_SYSTEMS } from '@/lib/calculator';
+import { createId } from '@/lib/create-id';
+import {
+    BUNDLED_CARS,
+    BUNDLED_CITIES,
+    CAR_PRESET_FIELDS,
+    CITY_PRESET_FIELDS,
+    CarPreset,
+    CityPreset,
+    PRESET_LIBRARY_VERSION,
+    PresetCatalogue,
+    applyCarPreset,
+    applyCityPreset,
+    loadCatalogue,
+    saveCatalogue,
+    searchPresets,
+} from '@/lib/preset-library';
+import { findRegion } from '@/lib/regions';
+
+type Tab = 'cars' | 'cities';
+
+interface PresetLibraryProps {
+    onApply: (update: (values: CalculatorFormValues) => CalculatorFormValues) => void;
+}
+
+const MAX_MATCHES = 8;
+
+export default function PresetLibrary({ onApply }: PresetLibraryProps) {
+    const [tab, setTab] = useState<Tab>('cars');
+    const [query, setQuery] = useState('');
+    const [catalogue, setCatalogue] = useState<PresetCatalogue>({ cars: [], cities: [] });
+    const [selected, setSelected] = useState<CarPreset | CityPreset | null>(null);
+    // Field overrides for the selected entry, as typed
+    const [draft, setDraft] = useState<Record<string, string>>({});
+    const [name, setName] = useState('');
+    const [pass, setPass] = useState<'metro' | 'bus'>('metro');
+
+    // Browser storage is only available after mount
+    useEffect(() => {
+        setCatalogue(loadCatalogue());
+    }, []);
+
+    const updateCatalogue = (next: PresetCatalogue) => {
+        setCatalogue(next);
+        saveCatalogue(next);
+    };
+
+    const fields = tab === 'cars' ? CAR_PRESET_FIELDS : CITY_PRESET_FIELDS;
+    const entries: (CarPreset | CityPreset)[] = tab === 'cars'
+        ? [...catalogue.cars, ...BUNDLED_CARS]
+        : [...catalogue.cities, ...BUNDLED_CITIES];
+    const matches = searchPresets(entries, query).slice(0, MAX_MATCHES);
+
+    const changeTab = (next: Tab) => {
+        setTab(next);
+        setSelected(null);
+    };
+
+    const select = (entry: CarPreset | CityPreset) => {
+        setSelected(entry);
+        setName(entry.name);
+        setDraft(Object.fromEntries(fields.map(({ field }) => [field, String((entry as unknown as Record<string, number>)[field])])));
+    };
+
+    // The selected entry with the overridden fields applied
+    const buildEntry = <T extends CarPreset | CityPreset>(entry: T): T => ({
+        ...entry,
+        ...Object.fromEntries(fields.map(({ field }) => [field, parseFloat(draft[field]) || 0])),
+    });
+
+    const apply = () => {
+        if (!selected) return;
+        if (tab === 'cars') {
+            const car = buildEntry(selected as CarPreset);
+            onApply(values => applyCarPreset(values, car));
+        } else {
+            const city = buildEntry(selected as CityPreset);
+            onApply(values => applyCityPreset(values, city, pass));
+        }
+    };
+
+    const saveCustom = () => {
+        if (!selected) return;
+        const entry = {
+            ...buildEntry(selected),
+            id: createId(),
+            name: name.trim() || `${selected.name} (custom)`,
+            custom: true,
+        };
+        updateCatalogue(tab === 'cars'
+            ? { ...catalogue, cars: [entry as CarPreset, ...catalogue.cars] }
+            : { ...catalogue, cities: [entry as CityPreset, ...catalogue.cities] });
+        setSelected(entry);
+    };
+
+    const removeCustom = (entry: CarPreset | CityPreset) => {
+        updateCatalogue({
+            cars: catalogue.cars.filter(item => item.id !== entry.id),
+            cities: catalogue.cities.filter(item => item.id !== entry.id),
+        });
+        if (selected?.id === entry.id) setSelected(null);
+    };
+
+    const unitFor = (field: string, entry: CarPreset | CityPreset) => {
+        const locale = findRegion(entry.regionId)?.locale;
+        if (!locale) return '';
+        const currency = CURRENCIES[locale.currency].symbol;
+        const units = UNIT_SYSTEMS[locale.units];
+        if (field === 'mileage') {
+            const powertrain = (entry as CarPreset).powertrain;
+            if (powertrain === 'ev') return `kWh/100${units.distance}`;
+            return powertrain === 'cng' ? `${units.distance}/kg` : units.efficiency;
+        }
+        if (field === 'fuelPrice') return `${currency}/${units.fuelVolume}`;
+        if (field.endsWith('Tariff')) return `${currency}/kWh`;
+        if (field === 'gridCarbonIntensity') return 'kg/kWh';
+        if (field.startsWith('resale')) return '%';
+        return currency;
+    };
+
+    const describe = (entry: CarPreset | CityPreset) => {
+        const region = findRegion(entry.regionId)?.label ?? entry.regionId;
+        return 'powertrain' in entry ? `${POWERTRAINS[entry.powertrain].label} · ${region}` : region;
+    };
+
+    return (
+        <div className="mb-6 sm:mb-8 rounded-lg border-2 border-gray-100 p-3 sm:p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs sm:text-sm font-semibold text-gray-700 flex items-center">
+                    <FaBook className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5" />
+                    Start from a Preset
+                </span>
+                <div className="flex space-x-2">
+                    {(['cars', 'cities'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => changeTab(option)}
+                            className={`px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                                tab === option
+                                    ? 'bg-blue-600 text-white shadow-md'
+                                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                        >
+                            {option === 'cars' ? 'Cars' : 'Cities'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="relative">
+                <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 text-gray-400" />
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    aria-label={tab === 'cars' ? 'Search cars' : 'Search cities'}
+                    placeholder={tab === 'cars' ? 'Search cars, e.g. Swift or Tesla' : 'Search cities, e.g. London'}
+                    className="block w-full rounded-lg border-2 border-gray-200 bg-white pl-8 pr-3 py-1.5 text-xs sm:text-sm focus:border-blue-500"
+                />
+            </div>
+
+            <ul className="flex flex-wrap gap-2">
+                {matches.map(entry => (
+                    <li key={entry.id}>
+                        <button
+                            onClick={() => select(entry)}
+                            className={`px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm text-left transition-all duration-200 ${
+                                selected?.id === entry.id
+                                    ? 'bg-blue-50 text-blue-700 ring-2 ring-blue-500'
+                                    : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                            }`}
+                        >
+                            {entry.name}
+                            <span className="block text-xs text-gray-400">
+                                {entry.custom ? 'My catalogue · ' : ''}{describe(entry)}
+                            </span>
+                        </button>
+                    </li>
+                ))}
+                {matches.length === 0 && <li className="text-xs text-gray-500">No matches</li>}
+            </ul>
+
+            {selected && (
+                <div className="rounded-lg bg-gray-50 p-3 space-y-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {fields.map(({ field, label }) => (
+                            <label key={field} className="text-xs text-gray-500">
+                                {label} <span className="text-gray-400">({unitFor(field, selected)})</span>
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    value={draft[field] ?? ''}
+                                    onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                                    className="mt-1 block w-full rounded-lg border-2 border-gray-200 bg-white px-2 py-1 text-sm focus:border-blue-500"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    {tab === 'cities' && (
+                        <label className="flex items-center text-xs sm:text-sm text-gray-600">
+                            Use the
+                            <select
+                                value={pass}
+                                onChange={(e) => setPass(e.target.value as 'metro' | 'bus')}
+                                className="mx-2 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 text-xs sm:text-sm focus:border-blue-500"
+                            >
+                                <option value="metro">metro/rail pass</option>
+                                <option value="bus">bus pass</option>
+                            </select>
+                            as the public transport cost
+                        </label>
+                    )}
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <button
+                            onClick={apply}
+                            className="inline-flex items-center justify-center px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-all duration-200 shadow-md"
+                        >
+                            <FaCheck className="w-3 h-3 mr-1.5" />
+                            Fill the Form
+                        </button>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            aria-label="Name for my catalogue"
+                            placeholder="Name for my catalogue"
+                            className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 text-xs sm:text-sm focus:border-blue-500"
+                        />
+                        <button
+                            onClick={saveCustom}
+                            className="inline-flex items-center justify-center px-3 py-1.5 text-xs sm:text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-all duration-200"
+                        >
+                            <FaSave className="w-3 h-3 mr-1.5" />
+                            Save to My Catalogue
+                        </button>
+                        {selected.custom && (
+                            <button
+                                onClick={() => removeCustom(selected)}
+                                title="Delete from my catalogue"
+                                className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                            >
+                                <FaTrash className="w-3 h-3 sm:w-4 sm:h-4" />
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <p className="text-xs text-gray-400">
+                Typical figures from the bundled dataset {PRESET_LIBRARY_VERSION}. Filling the form also switches to the
+                entry&apos;s region and units
+            </p>
+        </div>
+    );
+}
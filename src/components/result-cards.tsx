@@ -0,0 +1,275 @@
+'use client';
+
+import { FaCar, FaBus, FaMoneyBillWave, FaClock, FaWrench } from 'react-icons/fa';
+import {
+    CalculationResult,
+    LocaleSettings,
+    OWNERSHIP_MODELS,
+    POWERTRAINS,
+    UNIT_SYSTEMS,
+    formatCount,
+    formatCurrency,
+} from '@/lib/calculator';
+import { ViewMode } from '@/lib/share-state';
+
+interface ResultCardsProps {
+    result: CalculationResult;
+    locale: LocaleSettings;
+    viewMode: ViewMode;
+}
+
+export default function ResultCards({ result, locale, viewMode }: ResultCardsProps) {
+    const formatMoney = (value: number) => formatCurrency(value, locale);
+
+    const renderTimeValue = () => {
+        const periodMultiplier = viewMode === 'monthly' ? 1 : 12;
+        const options = [
+            { label: 'Car', hours: result.carCommuteHoursPerYear, cost: result.generalizedCarCost, color: 'text-blue-600' },
+            { label: 'Public Transport', hours: result.transitCommuteHoursPerYear, cost: result.generalizedCommuteCost, color: 'text-green-600' },
+        ];
+
+        return (
+            <div className="sm:col-span-2 bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
+                <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-gray-700 flex items-center">
+                    <FaClock className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
+                    Time Value
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-6">
+                    {options.map(option => (
+                        <div key={option.label} className="space-y-1">
+                            <p className={`font-semibold ${option.color}`}>{option.label}</p>
+                            <p className="text-sm flex justify-between items-center text-gray-500">
+                                <span>Time Commuting:</span>
+                                <span>{Math.round(option.hours)} hours/year</span>
+                            </p>
+                            <p className="text-sm flex justify-between items-center text-gray-600">
+                                <span>Generalized Cost:</span>
+                                <span className="font-bold text-gray-900">{formatMoney(option.cost * periodMultiplier)}</span>
+                            </p>
+                        </div>
+                    ))}
+                </div>
+                <p className="mt-3 text-xs text-gray-400">
+                    Generalized cost adds the value of unproductive commuting time to the money spent
+                </p>
+            </div>
+        );
+    };
+
+    const renderLoan = () => {
+        // Summarise the amortization schedule by loan year to keep the table short
+        const yearlySchedule = result.amortizationSchedule.reduce<{ year: number; principal: number; interest: number; balance: number }[]>(
+            (years, row) => {
+                const year = Math.ceil(row.month / 12);
+                const current = years[year - 1] ?? { year, principal: 0, interest: 0, balance: 0 };
+                current.principal += row.principal;
+                current.interest += row.interest;
+                current.balance = row.balance;
+                years[year - 1] = current;
+                return years;
+            },
+            []
+        );
+
+        return (
+            <div className="sm:col-span-2 bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
+                <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-purple-600 flex items-center">
+                    <FaMoneyBillWave className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
+                    Car Loan
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4">
+                    <p className="text-sm flex justify-between sm:flex-col text-gray-600">
+                        <span>Loan Amount:</span>
+                        <span className="font-bold text-gray-900">{formatMoney(result.loanAmount)}</span>
+                    </p>
+                    <p className="text-sm flex justify-between sm:flex-col text-gray-600">
+                        <span>Monthly EMI:</span>
+                        <span className="font-bold text-gray-900">{formatMoney(result.monthlyEmi)}</span>
+                    </p>
+                    <p className="text-sm flex justify-between sm:flex-col text-gray-600">
+                        <span>Total Interest:</span>
+                        <span className="font-bold text-gray-900">{formatMoney(result.totalInterest)}</span>
+                    </p>
+                </div>
+                <details className="mt-3 sm:mt-4 pt-2 sm:pt-3 border-t border-gray-100">
+                    <summary className="cursor-pointer text-sm font-medium text-gray-600">Amortization Schedule</summary>
+                    <div className="mt-3 overflow-x-auto">
+                        <table className="w-full text-xs sm:text-sm text-gray-600">
+                            <thead>
+                                <tr className="text-left text-gray-500 border-b border-gray-100">
+                                    <th className="py-1 pr-2 font-medium">Year</th>
+                                    <th className="py-1 pr-2 font-medium text-right">Principal</th>
+                                    <th className="py-1 pr-2 font-medium text-right">Interest</th>
+                                    <th className="py-1 font-medium text-right">Balance</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {yearlySchedule.map(row => (
+                                    <tr key={row.year} className="border-b border-gray-50">
+                                        <td className="py-1 pr-2">{row.year}</td>
+                                        <td className="py-1 pr-2 text-right">{formatMoney(row.principal)}</td>
+                                        <td className="py-1 pr-2 text-right">{formatMoney(row.interest)}</td>
+                                        <td className="py-1 text-right">{formatMoney(row.balance)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </details>
+            </div>
+        );
+    };
+
+    const renderMaintenance = () => {
+        // Events are dated from today, as if the car were bought now
+        const today = new Date();
+        const dateFor = (month: number) =>
+            new Date(today.getFullYear(), today.getMonth() + month, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+        const distanceUnit = UNIT_SYSTEMS[locale.units].distance;
+        const years = result.projection.filter(point => point.year > 0);
+
+        return (
+            <div className="sm:col-span-2 bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
+                <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-gray-700 flex items-center">
+                    <FaWrench className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
+                    Maintenance Schedule
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4">
+                    {years.map(point => (
+                        <p key={point.year} className="text-sm flex justify-between sm:flex-col text-gray-600">
+                            <span>Year {Math.ceil(point.year)}:</span>
+                            <span className="font-bold text-gray-900">{formatMoney(point.maintenanceCost)}</span>
+                        </p>
+                    ))}
+                </div>
+                <details className="mt-3 sm:mt-4 pt-2 sm:pt-3 border-t border-gray-100">
+                    <summary className="cursor-pointer text-sm font-medium text-gray-600">
+                        {result.maintenanceSchedule.length} Services and Replacements
+                    </summary>
+                    <div className="mt-3 overflow-x-auto">
+                        <table className="w-full text-xs sm:text-sm text-gray-600">
+                            <thead>
+                                <tr className="text-left text-gray-500 border-b border-gray-100">
+                                    <th className="py-1 pr-2 font-medium">Due</th>
+                                    <th className="py-1 pr-2 font-medium">Item</th>
+                                    <th className="py-1 pr-2 font-medium text-right">Odometer</th>
+                                    <th className="py-1 font-medium text-right">Cost Today</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.maintenanceSchedule.map((event, index) => (
+                                    <tr key={index} className="border-b border-gray-50">
+                                        <td className="py-1 pr-2">{dateFor(event.month)}</td>
+                                        <td className="py-1 pr-2">
+                                            {event.item}
+                                            {event.underWarranty && <span className="ml-1 text-gray-400">(in warranty)</span>}
+                                        </td>
+                                        <td className="py-1 pr-2 text-right">
+                                            {formatCount(event.odometer, locale.numberSystem)} {distanceUnit}
+                                        </td>
+                                        <td className="py-1 text-right">{formatMoney(event.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </details>
+                <p className="text-xs text-gray-500 mt-2">
+                    Yearly totals include maintenance inflation and any used-car repairs; the schedule is at today&apos;s prices
+                </p>
+            </div>
+        );
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+            <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
+                <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-blue-600 flex items-center">
+                    <FaCar className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
+                    {OWNERSHIP_MODELS[result.ownership].label}
+                </h3>
+                <div className="space-y-2 sm:space-y-3">
+                    <p className="text-base sm:text-lg flex justify-between items-center">
+                        <span className="text-gray-600">Total Cost:</span>
+                        <span className="font-bold text-gray-900">
+                            {formatMoney(viewMode === 'monthly' ? result.totalCarCost : result.totalCarCost * 12)}
+                        </span>
+                    </p>
+                    <div className="pt-2 sm:pt-3 border-t border-gray-100">
+                        <p className="text-sm flex justify-between items-center text-gray-500">
+                            <span>{POWERTRAINS[result.powertrain].energyLabel}:</span>
+                            <span>{formatMoney(result.fuelCosts)}</span>
+                        </p>
+                        {result.chargerCost > 0 && (
+                            <p className="text-sm flex justify-between items-center text-gray-500">
+                                <span>Home Charger:</span>
+                                <span>{formatMoney(result.chargerCost)}</span>
+                            </p>
+                        )}
+                        {[
+                            { label: 'Subscription', value: result.subscriptionCost },
+                            { label: 'Car-Sharing Fees', value: result.sharingCost },
+                            { label: 'Maintenance', value: result.maintenanceCost },
+                            { label: 'Age-Related Repairs', value: result.repairCost },
+                            { label: 'Insurance', value: result.insuranceCost },
+                            { label: 'Depreciation', value: result.depreciationCost },
+                        ].filter(item => item.value > 0).map(item => (
+                            <p key={item.label} className="text-sm flex justify-between items-center text-gray-500">
+                                <span>{item.label}:</span>
+                                <span>{formatMoney(item.value)}</span>
+                            </p>
+                        ))}
+                        {result.loanAmount > 0 && (
+                            <p className="text-sm flex justify-between items-center text-gray-500">
+                                <span>Loan Interest:</span>
+                                <span>{formatMoney(result.interestCost)}</span>
+                            </p>
+                        )}
+                        {[
+                            { label: 'Parking', value: result.parkingCost },
+                            { label: 'Tolls', value: result.tollCost },
+                            { label: 'Traffic Fines', value: result.fineCost },
+                            { label: 'Public Transport on Other Days', value: result.carTransitCost },
+                        ].filter(item => item.value > 0).map(item => (
+                            <p key={item.label} className="text-sm flex justify-between items-center text-gray-500">
+                                <span>{item.label}:</span>
+                                <span>{formatMoney(item.value)}</span>
+                            </p>
+                        ))}
+                        {result.taxSaving > 0 && (
+                            <p className="text-sm flex justify-between items-center text-green-600">
+                                <span>Income Tax Saving:</span>
+                                <span>−{formatMoney(result.taxSaving)}</span>
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+            <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md hover:shadow-lg transition-shadow duration-200 border border-gray-100">
+                <h3 className="text-base sm:text-lg lg:text-xl font-bold mb-3 sm:mb-4 text-green-600 flex items-center">
+                    <FaBus className="w-4 h-4 sm:w-6 sm:h-6 mr-2" />
+                    Public Transport
+                </h3>
+                <div className="space-y-2 sm:space-y-3">
+                    <p className="text-base sm:text-lg flex justify-between items-center">
+                        <span className="text-gray-600">Total Cost:</span>
+                        <span className="font-bold text-gray-900">
+                            {formatMoney(viewMode === 'monthly' ? result.totalCommuteCost : result.totalCommuteCost * 12)}
+                        </span>
+                    </p>
+                    <div className="pt-2 sm:pt-3 border-t border-gray-100">
+                        {result.commuteBreakdown.map(item => (
+                            <p key={item.label} className="text-sm flex justify-between items-center text-gray-500">
+                                <span>{item.label}:</span>
+                                <span>{formatMoney(item.monthlyCost)}</span>
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            {result.loanAmount > 0 && renderLoan()}
+            {result.maintenanceSchedule.length > 0 && renderMaintenance()}
+            {(result.carCommuteHoursPerYear > 0 || result.transitCommuteHoursPerYear > 0) && renderTimeValue()}
+        </div>
+    );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, Area, AreaChart, ReferenceLine } from 'recharts';
+import { FaChartBar, FaChartArea, FaChartLine, FaLeaf } from 'react-icons/fa';
+import {
+    CalculationResult,
+    LocaleSettings,
+    POWERTRAINS,
+    calculateEquivalents,
+    formatCount,
+    formatCurrency,
+    getEnergyUnit,
+} from '@/lib/calculator';
+import { ChartType } from '@/lib/share-state';
+import ChartDataTable from '@/components/chart-data-table';
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#A855F7', '#EC4899', '#64748B', '#84CC16', '#14B8A6', '#F97316', '#6366F1'];
+
+interface ResultChartsProps {
+    result: CalculationResult;
+    locale: LocaleSettings;
+    chartType: ChartType;
+    onChartTypeChange: (type: ChartType) => void;
+}
+
+export default function ResultCharts({ result, locale, chartType, onChartTypeChange }: ResultChartsProps) {
+    const formatMoney = (value: number) => formatCurrency(value, locale);
+
+    // Each category keeps its colour when others are left out for being zero
+    const costBreakdown = [
+        { name: POWERTRAINS[result.powertrain].energyLabel, value: result.fuelCosts, color: COLORS[0] },
+        { name: 'Charger', value: result.chargerCost, color: COLORS[1] },
+        { name: 'Subscription', value: result.subscriptionCost, color: COLORS[2] },
+        { name: 'Car-Sharing', value: result.sharingCost, color: COLORS[3] },
+        { name: 'Maintenance', value: result.maintenanceCost + result.repairCost, color: COLORS[4] },
+        { name: 'Insurance', value: result.insuranceCost, color: COLORS[5] },
+        { name: 'Depreciation', value: result.depreciationCost, color: COLORS[6] },
+        { name: 'Interest', value: result.interestCost, color: COLORS[7] },
+        { name: 'Parking & Tolls', value: result.parkingCost + result.tollCost, color: COLORS[8] },
+        { name: 'Fines', value: result.fineCost, color: COLORS[9] },
+        { name: 'Public Transport', value: result.carTransitCost, color: COLORS[10] }
+    ].filter(slice => slice.value > 0);
+    const breakdownTotal = costBreakdown.reduce((sum, slice) => sum + slice.value, 0);
+
+    // Cumulative cost of each option at the end of every year of ownership
+    // Maintenance is part of the car's cost, drawn on its own so the jumps as the car ages show up
+    let cumulativeMaintenance = 0;
+    const projectionData = result.projection.map(point => {
+        cumulativeMaintenance += point.maintenanceCost;
+        return {
+            year: point.year,
+            Car: point.cumulativeCar,
+            'Public Transport': point.cumulativeCommute,
+            Maintenance: cumulativeMaintenance,
+        };
+    });
+    const formatYear = (value: number) => `Year ${Number.isInteger(value) ? value : value.toFixed(1)}`;
+    const breakEvenLine = result.breakEvenYear !== null && (
+        <ReferenceLine
+            x={result.breakEvenYear}
+            stroke="#EF4444"
+            strokeDasharray="4 4"
+            label={{ value: 'Break-even', position: 'top', fill: '#EF4444', fontSize: 12 }}
+        />
+    );
+
+
+    return (
+        <div className="mt-6 sm:mt-8 space-y-6 sm:space-y-8">
+            <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md">
+                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6 space-y-3 sm:space-y-0">
+                    <h3 className="text-base sm:text-lg font-bold flex items-center">
+                        <FaChartBar className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                        Cumulative Cost of Ownership
+                    </h3>
+                    <div className="flex space-x-2 print:hidden">
+                        <button
+                            onClick={() => onChartTypeChange('line')}
+                            aria-pressed={chartType === 'line'}
+                            className={`px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 flex items-center ${
+                                chartType === 'line'
+                                    ? 'bg-blue-600 text-white shadow-md'
+                                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                        >
+                            <FaChartLine className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-1.5" />
+                            Line
+                        </button>
+                        <button
+                            onClick={() => onChartTypeChange('area')}
+                            aria-pressed={chartType === 'area'}
+                            className={`px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 flex items-center ${
+                                chartType === 'area'
+                                    ? 'bg-blue-600 text-white shadow-md'
+                                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                        >
+                            <FaChartArea className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-1.5" />
+                            Area
+                        </button>
+                    </div>
+                </div>
+                <div
+                    className="h-[250px] sm:h-[300px] md:h-[400px]"
+                    role="img"
+                    aria-label="Chart of the cumulative cost of the car, its maintenance and public transport by year; the figures are in the table below"
+                >
+                    <ResponsiveContainer width="100%" height="100%">
+                        {chartType === 'line' ? (
+                            <LineChart data={projectionData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                <XAxis dataKey="year" type="number" domain={[0, 'dataMax']} allowDecimals={false} tickFormatter={formatYear} />
+                                <YAxis tickFormatter={(value) => formatMoney(value)} />
+                                <Tooltip 
+                                    formatter={(value: number) => [formatMoney(value), '']}
+                                    labelFormatter={formatYear}
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                                />
+                                <Legend />
+                                {breakEvenLine}
+                                <Line type="monotone" dataKey="Car" stroke="#0088FE" strokeWidth={2} dot={{ r: 4 }} />
+                                <Line type="monotone" dataKey="Public Transport" stroke="#00C49F" strokeWidth={2} dot={{ r: 4 }} />
+                                <Line type="monotone" dataKey="Maintenance" stroke="#A855F7" strokeWidth={2} strokeDasharray="4 2" dot={{ r: 3 }} />
+                            </LineChart>
+                        ) : (
+                            <AreaChart data={projectionData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                <XAxis dataKey="year" type="number" domain={[0, 'dataMax']} allowDecimals={false} tickFormatter={formatYear} />
+                                <YAxis tickFormatter={(value) => formatMoney(value)} />
+                                <Tooltip 
+                                    formatter={(value: number) => [formatMoney(value), '']}
+                                    labelFormatter={formatYear}
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                                />
+                                <Legend />
+                                {breakEvenLine}
+                                <Area type="monotone" dataKey="Car" fill="#0088FE" fillOpacity={0.2} stroke="#0088FE" strokeWidth={2} />
+                                <Area type="monotone" dataKey="Public Transport" fill="#00C49F" fillOpacity={0.2} stroke="#00C49F" strokeWidth={2} />
+                                <Area type="monotone" dataKey="Maintenance" fill="#A855F7" fillOpacity={0.2} stroke="#A855F7" strokeWidth={2} />
+                            </AreaChart>
+                        )}
+                    </ResponsiveContainer>
+                </div>
+                <p className="mt-3 sm:mt-4 text-xs sm:text-sm text-gray-500 text-center">
+                    {result.breakEvenYear !== null
+                        ? `The two options break even after ${result.breakEvenYear.toFixed(1)} years`
+                        : `${result.projection[result.projection.length - 1].cumulativeCar < result.projection[result.projection.length - 1].cumulativeCommute ? 'Car ownership' : 'Public transport'} stays cheaper for the whole ownership period`}
+                </p>
+                <ChartDataTable
+                    caption="Cumulative cost of ownership by year"
+                    headers={['Year', 'Car', 'Public Transport', 'Car Maintenance']}
+                    rows={projectionData.map(point => [
+                        formatYear(point.year), formatMoney(point.Car), formatMoney(point['Public Transport']), formatMoney(point.Maintenance),
+                    ])}
+                />
+            </div>
+
+            <div className="bg-white rounded-lg p-6 shadow-md">
+                <h3 className="text-lg font-bold mb-6 flex items-center">
+                    <FaChartBar className="w-5 h-5 mr-2" />
+                    Car Cost Breakdown
+                </h3>
+                <div role="img" aria-label="Pie chart of the car's monthly costs; the figures are in the table below">
+                    <ResponsiveContainer width="100%" height={300}>
+                        <PieChart>
+                            <Pie
+                                data={costBreakdown}
+                                cx="50%"
+                                cy="50%"
+                                labelLine={false}
+                                label={({ name, value, percent }) => 
+                                    `${name} (${formatMoney(value)}) ${(percent * 100).toFixed(0)}%`
+                                }
+                                outerRadius={100}
+                                fill="#8884d8"
+                                dataKey="value"
+                            >
+                                {costBreakdown.map(slice => (
+                                    <Cell key={slice.name} fill={slice.color} />
+                                ))}
+                            </Pie>
+                            <Tooltip 
+                                formatter={(value: number) => [formatMoney(value), '']}
+                                contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                            />
+                        </PieChart>
+                    </ResponsiveContainer>
+                </div>
+                <ChartDataTable
+                    caption="Monthly car cost breakdown"
+                    headers={['Cost', 'Monthly', 'Share']}
+                    rows={costBreakdown.map(slice => [
+                        slice.name,
+                        formatMoney(slice.value),
+                        `${((slice.value / breakdownTotal) * 100).toFixed(0)}%`,
+                    ])}
+                />
+            </div>
+
+            <div className="bg-white rounded-lg p-6 shadow-md">
+                <h3 className="text-lg font-bold mb-4 flex items-center">
+                    <FaLeaf className="w-5 h-5 mr-2" />
+                    Environmental Impact
+                </h3>
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="bg-blue-50 rounded-lg p-4">
+                            <p className="text-blue-800 font-medium mb-2">
+                                Car Footprint:
+                            </p>
+                            <p className="text-blue-600 text-2xl font-bold mb-1">
+                                {result.yearlyEmissions.toFixed(2)} metric tons
+                            </p>
+                            <p className="text-blue-600 text-sm">
+                                of CO2 per year from driving a {POWERTRAINS[result.powertrain].label.toLowerCase()} car
+                            </p>
+                            <p className="text-blue-500 text-xs mt-2">
+                                {result.powertrain === 'ev'
+                                    ? `Based on ${result.energyUsed.toFixed(1)} kWh of grid electricity used per month`
+                                    : `Based on ${result.energyUsed.toFixed(1)} ${getEnergyUnit(result.powertrain, locale.units)} of ` +
+                                      `${result.powertrain === 'cng' ? 'CNG' : 'fuel'}` +
+                                      (result.electricityUsed > 0 ? ` and ${result.electricityUsed.toFixed(1)} kWh of grid electricity` : '') +
+                                      ' used per month'}
+                            </p>
+                        </div>
+                        <div className="bg-green-50 rounded-lg p-4">
+                            <p className="text-green-800 font-medium mb-2">
+                                Public Transport Footprint:
+                            </p>
+                            <p className="text-green-600 text-2xl font-bold mb-1">
+                                {result.transitEmissions.toFixed(2)} metric tons
+                            </p>
+                            <p className="text-green-600 text-sm">
+                                of CO2 per year for the same commute by public transport
+                            </p>
+                        </div>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-4">
+                        <h4 className="font-semibold text-gray-800 mb-3">
+                            {result.emissionsAvoided >= 0
+                                ? `Taking public transport avoids ${result.emissionsAvoided.toFixed(2)} metric tons of CO2 a year. That's about:`
+                                : `Driving emits ${Math.abs(result.emissionsAvoided).toFixed(2)} fewer metric tons of CO2 a year than public transport. That's about:`}
+                        </h4>
+                        <ul className="space-y-3">
+                            {calculateEquivalents(Math.abs(result.emissionsAvoided)).map(equivalent => (
+                                <li key={equivalent.label} className="flex items-start text-gray-700">
+                                    <FaLeaf className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0 text-green-500" />
+                                    <span>
+                                        <span className="font-semibold">{formatCount(equivalent.amount, locale.numberSystem)}</span> {equivalent.label}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { FaChartBar } from 'react-icons/fa';
+import {
+    CalculationResult,
+    LocaleSettings,
+    calculateCosts,
+    formatCurrency,
+    isValid,
+    parseFormValues,
+    validateForm,
+} from '@/lib/calculator';
+import { Scenario } from '@/lib/scenarios';
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042'];
+
+const METRICS: { key: keyof CalculationResult; label: string; unit: 'currency' | 'tons'; higherIsBetter?: boolean }[] = [
+    { key: 'totalCarCost', label: 'Car Total (monthly)', unit: 'currency' },
+    { key: 'totalCommuteCost', label: 'Public Transport (monthly)', unit: 'currency' },
+    { key: 'monthlySavings', label: 'Monthly Savings', unit: 'currency', higherIsBetter: true },
+    { key: 'fuelCosts', label: 'Fuel', unit: 'currency' },
+    { key: 'subscriptionCost', label: 'Subscription', unit: 'currency' },
+    { key: 'sharingCost', label: 'Car-Sharing', unit: 'currency' },
+    { key: 'maintenanceCost', label: 'Maintenance', unit: 'currency' },
+    { key: 'repairCost', label: 'Age-Related Repairs', unit: 'currency' },
+    { key: 'insuranceCost', label: 'Insurance', unit: 'currency' },
+    { key: 'depreciationCost', label: 'Depreciation', unit: 'currency' },
+    { key: 'interestCost', label: 'Loan Interest', unit: 'currency' },
+    { key: 'taxSaving', label: 'Tax Saving', unit: 'currency', higherIsBetter: true },
+    { key: 'parkingCost', label: 'Parking', unit: 'currency' },
+    { key: 'tollCost', label: 'Tolls', unit: 'currency' },
+    { key: 'generalizedCarCost', label: 'Car incl. Time (monthly)', unit: 'currency' },
+    { key: 'generalizedCommuteCost', label: 'Transit incl. Time (monthly)', unit: 'currency' },
+    { key: 'yearlyEmissions', label: 'Car CO2 per Year', unit: 'tons' },
+    { key: 'transitEmissions', label: 'Transit CO2 per Year', unit: 'tons' },
+];
+
+// Breakdown categories plotted as groups in the bar chart
+const CHART_METRICS = METRICS.filter(metric => metric.unit === 'currency' && !metric.higherIsBetter);
+
+const formatMetric = (value: number, unit: 'currency' | 'tons', locale: LocaleSettings) =>
+    unit === 'currency' ? formatCurrency(value, locale) : `${value.toFixed(2)} t`;
+
+export default function ScenarioComparison({ scenarios }: { scenarios: Scenario[] }) {
+    const [baselineId, setBaselineId] = useState(scenarios[0].id);
+
+    // Scenarios saved with incomplete inputs can't be calculated
+    const calculated = scenarios.map(scenario => ({
+        scenario,
+        result: isValid(validateForm(scenario.values)) ? calculateCosts(parseFormValues(scenario.values)) : null,
+    }));
+    const calculable = calculated.filter(
+        (entry): entry is { scenario: Scenario; result: CalculationResult } => entry.result !== null
+    );
+    const skipped = calculated.filter(entry => entry.result === null).map(entry => entry.scenario.name);
+    const baseline = calculable.find(entry => entry.scenario.id === baselineId) ?? calculable[0];
+
+    // Amounts in different currencies can't share an axis or be subtracted
+    const sameCurrency = ({ scenario }: { scenario: Scenario }) =>
+        scenario.values.locale.currency === baseline.scenario.values.locale.currency;
+    const comparable = calculable.filter(sameCurrency);
+    const otherCurrency = calculable.filter(entry => !sameCurrency(entry)).map(entry => entry.scenario.name);
+
+    const chartData = CHART_METRICS.map(metric => ({
+        name: metric.label.replace(' (monthly)', ''),
+        ...Object.fromEntries(comparable.map(({ scenario, result }) => [scenario.id, result[metric.key] as number])),
+    }));
+
+    return (
+        <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md space-y-4 sm:space-y-6">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-3 sm:space-y-0">
+                <h3 className="text-base sm:text-lg font-bold flex items-center">
+                    <FaChartBar className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                    Scenario Comparison
+                </h3>
+                {calculable.length > 0 && (
+                    <label className="text-xs sm:text-sm text-gray-600 flex items-center">
+                        Baseline:
+                        <select
+                            value={baseline.scenario.id}
+                            onChange={(e) => setBaselineId(e.target.value)}
+                            className="ml-2 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 text-xs sm:text-sm focus:border-blue-500"
+                        >
+                            {calculable.map(({ scenario }) => (
+                                <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+            </div>
+
+            {skipped.length > 0 && (
+                <p className="text-xs sm:text-sm text-amber-600">
+                    Not compared because required inputs are missing or invalid: {skipped.join(', ')}
+                </p>
+            )}
+            {otherCurrency.length > 0 && (
+                <p className="text-xs sm:text-sm text-amber-600">
+                    Not compared because they are in a different currency from the baseline: {otherCurrency.join(', ')}
+                </p>
+            )}
+
+            {comparable.length > 0 && (
+                <>
+                    <div
+                        className="h-[250px] sm:h-[300px] md:h-[400px]"
+                        role="img"
+                        aria-label="Bar chart comparing the monthly costs of each scenario; the figures are in the table below"
+                    >
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                                <YAxis tickFormatter={(value) => formatCurrency(value, baseline.scenario.values.locale)} />
+                                <Tooltip
+                                    formatter={(value: number) => formatCurrency(value, baseline.scenario.values.locale)}
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                                />
+                                <Legend />
+                                {comparable.map(({ scenario }, index) => (
+                                    <Bar key={scenario.id} dataKey={scenario.id} name={scenario.name} fill={COLORS[index % COLORS.length]} />
+                                ))}
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs sm:text-sm text-gray-600">
+                            <thead>
+                                <tr className="text-left text-gray-500 border-b border-gray-100">
+                                    <th className="py-2 pr-3 font-medium">Metric</th>
+                                    {comparable.map(({ scenario }) => (
+                                        <th key={scenario.id} className="py-2 pr-3 font-medium text-right">
+                                            {scenario.name}
+                                            {scenario.id === baseline.scenario.id && <span className="block text-xs text-gray-400">baseline</span>}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {METRICS.map(metric => {
+                                    const baseValue = baseline.result[metric.key] as number;
+                                    return (
+                                        <tr key={metric.key} className="border-b border-gray-50">
+                                            <td className="py-2 pr-3">{metric.label}</td>
+                                            {comparable.map(({ scenario, result }) => {
+                                                const value = result[metric.key] as number;
+                                                const delta = value - baseValue;
+                                                const improved = metric.higherIsBetter ? delta > 0 : delta < 0;
+                                                return (
+                                                    <td key={scenario.id} className="py-2 pr-3 text-right whitespace-nowrap">
+                                                        <span className="text-gray-900">{formatMetric(value, metric.unit, scenario.values.locale)}</span>
+                                                        {scenario.id !== baseline.scenario.id && (
+                                                            <span className={`block text-xs ${delta === 0 ? 'text-gray-400' : improved ? 'text-green-600' : 'text-red-500'}`}>
+                                                                {delta > 0 ? '+' : ''}{formatMetric(delta, metric.unit, scenario.values.locale)}
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCopy, FaEdit, FaSave, FaTrash, FaLayerGroup } from 'react-icons/fa';
+import { CalculatorFormValues } from '@/lib/calculator';
+import { createId } from '@/lib/create-id';
+import { Scenario } from '@/lib/scenarios';
+import ScenarioComparison from '@/components/scenario-comparison';
+
+const MAX_COMPARED = 4;
+
+interface ScenarioManagerProps {
+    formData: CalculatorFormValues;
+    scenarios: Scenario[];
+    onScenariosChange: (scenarios: Scenario[]) => void;
+    onLoad: (values: CalculatorFormValues) => void;
+}
+
+export default function ScenarioManager({ formData, scenarios, onScenariosChange, onLoad }: ScenarioManagerProps) {
+    const [name, setName] = useState('');
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+    const activeScenario = scenarios.find(scenario => scenario.id === activeId);
+
+    const saveAsNew = () => {
+        const scenario: Scenario = {
+            id: createId(),
+            name: name.trim() || `Scenario ${scenarios.length + 1}`,
+            values: formData,
+            updatedAt: new Date().toISOString(),
+        };
+        onScenariosChange([...scenarios, scenario]);
+        setActiveId(scenario.id);
+        setName('');
+    };
+
+    const updateActive = () => {
+        if (!activeScenario) return;
+        onScenariosChange(scenarios.map(scenario =>
+            scenario.id === activeScenario.id
+                ? { ...scenario, name: name.trim() || scenario.name, values: formData, updatedAt: new Date().toISOString() }
+                : scenario
+        ));
+        setName('');
+    };
+
+    const edit = (scenario: Scenario) => {
+        setActiveId(scenario.id);
+        setName(scenario.name);
+        onLoad(scenario.values);
+    };
+
+    const duplicate = (scenario: Scenario) => {
+        onScenariosChange([...scenarios, {
+            ...scenario,
+            id: createId(),
+            name: `${scenario.name} (copy)`,
+            updatedAt: new Date().toISOString(),
+        }]);
+    };
+
+    const remove = (scenario: Scenario) => {
+        onScenariosChange(scenarios.filter(item => item.id !== scenario.id));
+        setComparedIds(prev => prev.filter(id => id !== scenario.id));
+        if (activeId === scenario.id) setActiveId(null);
+    };
+
+    const toggleCompared = (id: string) => {
+        setComparedIds(prev => prev.includes(id)
+            ? prev.filter(item => item !== id)
+            : [...prev, id].slice(0, MAX_COMPARED));
+    };
+
+    const compared = comparedIds
+        .map(id => scenarios.find(scenario => scenario.id === id))
+        .filter((scenario): scenario is Scenario => scenario !== undefined);
+
+    return (
+        <div className="mt-8 sm:mt-10 lg:mt-12 space-y-4 sm:space-y-6">
+            <div className="pb-3 sm:pb-4 border-b border-gray-200">
+                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800 flex items-center">
+                    <FaLayerGroup className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                    Scenarios
+                </h2>
+                <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                    Save the current inputs under a name, then pick 2–{MAX_COMPARED} scenarios to compare
+                </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    aria-label="Scenario name"
+                    placeholder={activeScenario ? activeScenario.name : 'Scenario name, e.g. Hatchback on loan'}
+                    className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-3 py-2 text-sm sm:text-base shadow-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-30"
+                />
+                <button
+                    onClick={saveAsNew}
+                    className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-all duration-200 shadow-md"
+                >
+                    <FaSave className="w-4 h-4 mr-2" />
+                    Save as New
+                </button>
+                {activeScenario && (
+                    <button
+                        onClick={updateActive}
+                        className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-all duration-200"
+                    >
+                        <FaEdit className="w-4 h-4 mr-2" />
+                        Update &ldquo;{activeScenario.name}&rdquo;
+                    </button>
+                )}
+            </div>
+
+            {scenarios.length > 0 && (
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100 bg-white shadow-sm">
+                    {scenarios.map(scenario => {
+                        const isCompared = comparedIds.includes(scenario.id);
+                        return (
+                            <li key={scenario.id} className="flex flex-wrap items-center gap-2 sm:gap-3 px-3 py-2 sm:px-4 sm:py-3">
+                                <label className="flex items-center flex-1 min-w-0 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={isCompared}
+                                        disabled={!isCompared && comparedIds.length >= MAX_COMPARED}
+                                        onChange={() => toggleCompared(scenario.id)}
+                                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    <span className={`truncate ${scenario.id === activeId ? 'font-semibold text-blue-700' : ''}`}>
+                                        {scenario.name}
+                                    </span>
+                                    <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">
+                                        {new Date(scenario.updatedAt).toLocaleDateString()}
+                                    </span>
+                                </label>
+                                <div className="flex space-x-1">
+                                    <button
+                                        onClick={() => edit(scenario)}
+                                        title="Load into the form to edit"
+                                        className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                                    >
+                                        <FaEdit className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => duplicate(scenario)}
+                                        title="Duplicate"
+                                        className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                                    >
+                                        <FaCopy className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => remove(scenario)}
+                                        title="Delete"
+                                        className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                                    >
+                                        <FaTrash className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {compared.length >= 2 && <ScenarioComparison scenarios={compared} />}
+        </div>
+    );
+}
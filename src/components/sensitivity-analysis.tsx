@@ -0,0 +1,219 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+    BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+    ScatterChart, Scatter, ZAxis, Cell,
+} from 'recharts';
+import { FaSlidersH, FaThLarge } from 'react-icons/fa';
+import ChartDataTable from './chart-data-table';
+import {
+    CalculatorField,
+    CalculatorInput,
+    GoalSeekResult,
+    SENSITIVITY_INPUTS,
+    formatCompactNumber,
+    formatCurrency,
+    getVariableInputs,
+    runHeatmap,
+    runTornado,
+} from '@/lib/calculator';
+
+const RANGE_OPTIONS = [10, 20, 30, 50];
+
+interface SensitivityAnalysisProps {
+    values: CalculatorInput;
+    /** A solved break-even, drawn on the heatmap when its input is on either axis */
+    breakEven?: GoalSeekResult | null;
+}
+
+export default function SensitivityAnalysis({ values, breakEven }: SensitivityAnalysisProps) {
+    const [rangePercent, setRangePercent] = useState(20);
+    const formatMoney = (value: number) => formatCurrency(value, values.locale);
+    const formatValue = (value: number) => formatCompactNumber(value, values.locale.numberSystem);
+
+    // Only inputs with a value can be varied by a percentage
+    const variableInputs = getVariableInputs(values);
+    const defaultX = variableInputs.find(input => input.field === 'distanceToWork')?.field ?? variableInputs[0]?.field ?? 'carPrice';
+    const defaultY = variableInputs.find(input => input.field === 'fuelPrice')?.field ?? variableInputs[1]?.field ?? 'carPrice';
+    const [chosenX, setXField] = useState<CalculatorField>(defaultX);
+    const [chosenY, setYField] = useState<CalculatorField>(defaultY);
+    // A recalculation can rule out a chosen input, e.g. after changing the ownership model
+    const isVariable = (field: CalculatorField) => variableInputs.some(input => input.field === field);
+    const xField = isVariable(chosenX) ? chosenX : defaultX;
+    const yField = isVariable(chosenY) ? chosenY : defaultY;
+
+    const tornado = useMemo(() => runTornado(values, rangePercent), [values, rangePercent]);
+    const heatmap = useMemo(
+        () => runHeatmap(values, xField, yField, rangePercent),
+        [values, xField, yField, rangePercent]
+    );
+
+    const tornadoData = tornado.bars.map(bar => ({
+        name: bar.label,
+        Lower: bar.low - tornado.baseline,
+        Higher: bar.high - tornado.baseline,
+    }));
+    const maxSwing = Math.max(...heatmap.map(cell => Math.abs(cell.yearlySavings)), 1);
+    const labelFor = (field: CalculatorField) => SENSITIVITY_INPUTS.find(input => input.field === field)?.label ?? field;
+    const breakEvenValue = breakEven?.value ?? null;
+    const breakEvenLine = (axis: 'x' | 'y', field: CalculatorField) =>
+        breakEvenValue !== null && breakEven?.field === field && (
+            <ReferenceLine
+                x={axis === 'x' ? breakEvenValue : undefined}
+                y={axis === 'y' ? breakEvenValue : undefined}
+                stroke="#EF4444"
+                strokeDasharray="4 4"
+                label={{ value: 'Break-even', position: axis === 'x' ? 'insideTopRight' : 'insideBottomRight', fill: '#EF4444', fontSize: 11 }}
+            />
+        );
+
+    const fieldSelect = (value: CalculatorField, onChange: (field: CalculatorField) => void) => (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as CalculatorField)}
+            className="ml-2 rounded-lg border-2 border-gray-200 bg-white px-2 py-1 text-xs sm:text-sm focus:border-blue-500"
+        >
+            {variableInputs.map(input => (
+                <option key={input.field} value={input.field}>{input.label}</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="mt-6 sm:mt-8 space-y-6 sm:space-y-8">
+            <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md">
+                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6 space-y-3 sm:space-y-0">
+                    <h3 className="text-base sm:text-lg font-bold flex items-center">
+                        <FaSlidersH className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                        Sensitivity of Yearly Savings
+                    </h3>
+                    <div className="flex space-x-2">
+                        {RANGE_OPTIONS.map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setRangePercent(option)}
+                                aria-pressed={rangePercent === option}
+                                className={`px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-200 ${
+                                    rangePercent === option
+                                        ? 'bg-blue-600 text-white shadow-md'
+                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                }`}
+                            >
+                                ±{option}%
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-xs sm:text-sm text-gray-500 mb-4">
+                    Change in yearly savings from buying (currently {formatMoney(tornado.baseline)}) when each input is
+                    {' '}{rangePercent}% lower or higher, all else equal
+                </p>
+                <div
+                    style={{ height: Math.max(tornadoData.length * 36 + 60, 200) }}
+                    role="img"
+                    aria-label={`Tornado chart of how much each input moves yearly savings when it is ${rangePercent}% lower or higher`}
+                >
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 24 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                            <XAxis type="number" tickFormatter={formatMoney} />
+                            <YAxis type="category" dataKey="name" width={130} tick={{ fontSize: 12 }} />
+                            <Tooltip
+                                formatter={(value: number) => formatMoney(value)}
+                                contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                            />
+                            <Legend />
+                            <ReferenceLine x={0} stroke="#6B7280" />
+                            <Bar dataKey="Lower" stackId="swing" fill="#FF8042" />
+                            <Bar dataKey="Higher" stackId="swing" fill="#0088FE" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+                <ChartDataTable
+                    caption={`Change in yearly savings when each input is ${rangePercent}% lower or higher`}
+                    headers={['Input', `${rangePercent}% Lower`, `${rangePercent}% Higher`]}
+                    rows={tornadoData.map(bar => [bar.name, formatMoney(bar.Lower), formatMoney(bar.Higher)])}
+                />
+            </div>
+
+            {variableInputs.length >= 2 && (
+                <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md">
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6 space-y-3 sm:space-y-0">
+                        <h3 className="text-base sm:text-lg font-bold flex items-center">
+                            <FaThLarge className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                            Which Option Wins
+                        </h3>
+                        <div className="flex flex-wrap gap-2 text-xs sm:text-sm text-gray-600">
+                            <label className="flex items-center">Across:{fieldSelect(xField, setXField)}</label>
+                            <label className="flex items-center">Up:{fieldSelect(yField, setYField)}</label>
+                        </div>
+                    </div>
+                    <div
+                        className="h-[300px] sm:h-[400px]"
+                        role="img"
+                        aria-label={`Grid of which option is cheaper as ${labelFor(xField).toLowerCase()} and ${labelFor(yField).toLowerCase()} change`}
+                    >
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ScatterChart margin={{ left: 24, bottom: 16 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                <XAxis
+                                    type="number"
+                                    dataKey="x"
+                                    name={labelFor(xField)}
+                                    domain={['dataMin', 'dataMax']}
+                                    tickFormatter={(value) => formatValue(value)}
+                                    label={{ value: labelFor(xField), position: 'insideBottom', offset: -10, fontSize: 12 }}
+                                />
+                                <YAxis
+                                    type="number"
+                                    dataKey="y"
+                                    name={labelFor(yField)}
+                                    domain={['dataMin', 'dataMax']}
+                                    tickFormatter={(value) => formatValue(value)}
+                                    label={{ value: labelFor(yField), angle: -90, position: 'insideLeft', fontSize: 12 }}
+                                />
+                                <ZAxis type="number" dataKey="yearlySavings" name="Yearly Savings" range={[500, 500]} />
+                                <Tooltip
+                                    formatter={(value: number, name: string) => [
+                                        name === 'Yearly Savings' ? formatMoney(value) : formatValue(value),
+                                        name,
+                                    ]}
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '0.5rem', padding: '1rem' }}
+                                />
+                                <Scatter data={heatmap} shape="square">
+                                    {heatmap.map((cell, index) => (
+                                        <Cell
+                                            key={`cell-${index}`}
+                                            fill={cell.yearlySavings > 0 ? '#0088FE' : '#00C49F'}
+                                            fillOpacity={0.25 + 0.75 * (Math.abs(cell.yearlySavings) / maxSwing)}
+                                        />
+                                    ))}
+                                </Scatter>
+                                {breakEvenLine('x', xField)}
+                                {breakEvenLine('y', yField)}
+                            </ScatterChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="mt-3 flex justify-center space-x-6 text-xs sm:text-sm text-gray-600">
+                        <span className="flex items-center"><span className="w-3 h-3 mr-1.5 rounded-sm bg-[#0088FE]" />Buying is cheaper</span>
+                        <span className="flex items-center"><span className="w-3 h-3 mr-1.5 rounded-sm bg-[#00C49F]" />Public transport is cheaper</span>
+                        {breakEvenValue !== null && (breakEven?.field === xField || breakEven?.field === yField) && (
+                            <span className="flex items-center"><span className="w-3 h-0 mr-1.5 border-t-2 border-dashed border-[#EF4444]" />Break-even</span>
+                        )}
+                    </div>
+                    <ChartDataTable
+                        caption={`Yearly savings from buying by ${labelFor(xField).toLowerCase()} and ${labelFor(yField).toLowerCase()}`}
+                        headers={[labelFor(xField), labelFor(yField), 'Yearly Savings', 'Cheaper Option']}
+                        rows={heatmap.map(cell => [
+                            formatValue(cell.x),
+                            formatValue(cell.y),
+                            formatMoney(cell.yearlySavings),
+                            cell.yearlySavings > 0 ? 'Buying' : 'Public transport',
+                        ])}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
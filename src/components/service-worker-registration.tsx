@@ -0,0 +1,13 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/** Registers the offline service worker; left out in development, where it would serve stale builds */
+export default function ServiceWorkerRegistration() {
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+        navigator.serviceWorker.register('/sw.js').catch(() => undefined);
+    }, []);
+
+    return null;
+}
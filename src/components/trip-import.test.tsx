@@ -0,0 +1,27 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import TripImport from './trip-import';
+
+afterEach(cleanup);
+
+const upload = (file: File) => {
+    render(<TripImport units="metric" workingDaysPerMonth="22" onAccept={() => undefined} />);
+    fireEvent.change(screen.getByLabelText('Trip or fuel log file'), { target: { files: [file] } });
+};
+
+describe('TripImport', () => {
+    it('lists the trips it skipped from a log with a missing point', async () => {
+        upload(new File(['[{"start":"2025-01-06","points":[{"lat":19.07,"lon":72.87},null]}]'], 'trips.json'));
+
+        expect(await screen.findByText('Trip 1 was skipped because it has no start date or no readable distance')).toBeTruthy();
+    });
+
+    it('tells the user when the file cannot be read', async () => {
+        const file = new File([''], 'fuel.csv');
+        file.text = () => Promise.reject(new Error('Permission denied'));
+        upload(file);
+
+        expect(await screen.findByText('The file could not be read')).toBeTruthy();
+    });
+});
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCheck, FaFileImport } from 'react-icons/fa';
+import { CalculatorField, UnitSystem } from '@/lib/calculator';
+import {
+    ImportResult,
+    deriveFromFuelLog,
+    deriveFromTrips,
+    parseFuelLogCsv,
+    parseGpx,
+    parseTripJson,
+} from '@/lib/trip-log';
+
+interface TripImportProps {
+    units: UnitSystem;
+    workingDaysPerMonth: string;
+    onAccept: (values: Partial<Record<CalculatorField, string>>) => void;
+}
+
+const DERIVED_LABELS: Partial<Record<CalculatorField, string>> = {
+    fuelEfficiency: 'Fuel Efficiency',
+    fuelPrice: 'Fuel Price',
+    distanceToWork: 'Distance to Work',
+    workingDaysPerMonth: 'Working Days per Month',
+};
+
+const readLog = (name: string, text: string, units: UnitSystem, workingDaysPerMonth: number): ImportResult => {
+    const extension = name.toLowerCase().split('.').pop();
+    if (extension === 'csv') {
+        const { entries, errors } = parseFuelLogCsv(text);
+        const result = deriveFromFuelLog(entries, units, workingDaysPerMonth);
+        return { derivation: result.derivation, errors: [...errors, ...result.errors] };
+    }
+    if (extension === 'gpx' || extension === 'json') {
+        const { trips, errors } = extension === 'gpx' ? parseGpx(text) : parseTripJson(text);
+        const result = deriveFromTrips(trips, units);
+        return { derivation: result.derivation, errors: [...errors, ...result.errors] };
+    }
+    return { derivation: null, errors: ['Upload a .csv fuel log, or a .gpx or .json trip log'] };
+};
+
+export default function TripImport({ units, workingDaysPerMonth, onAccept }: TripImportProps) {
+    const [fileName, setFileName] = useState('');
+    const [imported, setImported] = useState<ImportResult | null>(null);
+    const [accepted, setAccepted] = useState<CalculatorField[]>([]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        let result: ImportResult;
+        try {
+            result = readLog(file.name, await file.text(), units, parseFloat(workingDaysPerMonth) || 0);
+        } catch {
+            result = { derivation: null, errors: ['The file could not be read'] };
+        }
+        setFileName(file.name);
+        setImported(result);
+        setAccepted(Object.keys(result.derivation?.values ?? {}) as CalculatorField[]);
+        e.target.value = '';
+    };
+
+    const toggle = (field: CalculatorField) => {
+        setAccepted(prev => prev.includes(field) ? prev.filter(item => item !== field) : [...prev, field]);
+    };
+
+    const accept = () => {
+        if (!imported?.derivation) return;
+        const values = imported.derivation.values;
+        onAccept(Object.fromEntries(accepted.map(field => [field, values[field]])));
+        setImported(null);
+    };
+
+    const derived = Object.entries(imported?.derivation?.values ?? {}) as [CalculatorField, string][];
+
+    return (
+        <details className="mb-6 sm:mb-8 rounded-lg border-2 border-gray-100 p-3 sm:p-4">
+            <summary className="cursor-pointer text-xs sm:text-sm font-semibold text-gray-700">
+                <FaFileImport className="inline w-3 h-3 sm:w-4 sm:h-4 mr-1.5 -mt-0.5" />
+                Import Fuel Receipts or Trip Logs
+            </summary>
+            <div className="mt-3 space-y-3 text-xs sm:text-sm text-gray-600">
+                <p className="text-xs text-gray-500">
+                    A CSV of fill-ups with date, odometer, quantity and cost columns gives your real fuel efficiency and
+                    price. A GPX or JSON trip log exported from a phone gives your commute distance and driving days.
+                    Dates like 15/03/2025 are read day first; figures are taken to be in your selected units.
+                </p>
+                <input
+                    type="file"
+                    accept=".csv,.gpx,.json"
+                    onChange={handleFile}
+                    aria-label="Trip or fuel log file"
+                    className="block w-full text-xs sm:text-sm text-gray-600 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-100 file:px-3 file:py-1.5 file:text-gray-700 hover:file:bg-gray-200"
+                />
+
+                {imported && imported.errors.length > 0 && (
+                    <ul className="text-xs text-amber-600 space-y-1">
+                        {imported.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+
+                {imported?.derivation && (
+                    <div className="rounded-lg bg-gray-50 p-3 space-y-3">
+                        <div>
+                            <p className="font-medium text-gray-700 mb-1">How {fileName} was read</p>
+                            <ol className="list-decimal pl-5 space-y-1 text-xs text-gray-600">
+                                {imported.derivation.working.map(step => <li key={step}>{step}</li>)}
+                            </ol>
+                        </div>
+                        <div className="space-y-1">
+                            {derived.map(([field, value]) => (
+                                <label key={field} className="flex items-center justify-between">
+                                    <span className="flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={accepted.includes(field)}
+                                            onChange={() => toggle(field)}
+                                            className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        {DERIVED_LABELS[field] ?? field}
+                                    </span>
+                                    <span className="font-semibold text-gray-900">{value}</span>
+                                </label>
+                            ))}
+                        </div>
+                        <button
+                            onClick={accept}
+                            disabled={accepted.length === 0}
+                            className="inline-flex items-center px-3 py-1.5 font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 rounded-lg transition-all duration-200 shadow-md"
+                        >
+                            <FaCheck className="w-3 h-3 mr-1.5" />
+                            Use Selected Values
+                        </button>
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCosts } from './calculate';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+import { CalculatorFormValues } from './types';
+
+const formValues = (overrides: Partial<CalculatorFormValues> = {}): CalculatorFormValues => ({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '400000',
+    resaleYears: '5',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    insuranceCosts: '24000',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+    ...overrides,
+});
+
+const calculate = (overrides: Partial<CalculatorFormValues> = {}) => calculateCosts(parseFormValues(formValues(overrides)));
+
+describe('calculateCosts', () => {
+    it('adds up fuel, depreciation and insurance for a car bought outright', () => {
+        const result = calculate();
+
+        expect(result.distanceDriven).toBe(880);
+        expect(result.fuelCosts).toBeCloseTo((880 / 15) * 100);
+        expect(result.depreciationCost).toBeCloseTo(600000 / 60);
+        expect(result.insuranceCost).toBeCloseTo(2000);
+        expect(result.interestCost).toBe(0);
+        expect(result.totalCarCost).toBeCloseTo(result.fuelCosts + 10000 + 2000);
+        expect(result.totalCommuteCost).toBeCloseTo(3000);
+        expect(result.monthlySavings).toBeCloseTo(3000 - result.totalCarCost);
+        expect(result.yearlySavings).toBeCloseTo(result.monthlySavings * 12);
+    });
+
+    it('costs no fuel or emissions for a zero distance', () => {
+        const result = calculate({ distanceToWork: '0' });
+
+        expect(result.distanceDriven).toBe(0);
+        expect(result.fuelCosts).toBe(0);
+        expect(result.yearlyEmissions).toBe(0);
+        expect(result.totalCarCost).toBeCloseTo(10000 + 2000);
+        expect(Number.isFinite(result.monthlySavings)).toBe(true);
+    });
+
+    it('counts a resale value above the price as a gain', () => {
+        const result = calculate({ resaleValue: '1200000' });
+
+        expect(result.resaleValue).toBe(1200000);
+        expect(result.depreciationCost).toBeCloseTo(-200000 / 60);
+        expect(result.totalCarCost).toBeCloseTo(result.fuelCosts + 2000 - 200000 / 60);
+        result.projection.forEach(point => expect(Number.isFinite(point.carCost)).toBe(true));
+    });
+
+    it('drives every one of 31 working days', () => {
+        const result = calculate({ workingDaysPerMonth: '31' });
+
+        expect(result.distanceDriven).toBe(20 * 2 * 31);
+        expect(result.fuelCosts).toBeCloseTo(((20 * 2 * 31) / 15) * 100);
+        expect(result.totalCommuteCost).toBeCloseTo(3000);
+    });
+
+    it('stays exact at crore-scale prices', () => {
+        const result = calculate({
+            carPrice: '25000000',
+            resaleValue: '10000000',
+            downPayment: '5000000',
+            loanTenure: '5',
+            interestRate: '9',
+        });
+
+        expect(result.depreciationCost).toBeCloseTo(15000000 / 60);
+        expect(result.loanAmount).toBe(20000000);
+        expect(result.amortizationSchedule).toHaveLength(60);
+        expect(result.amortizationSchedule[59].balance).toBeCloseTo(0, 2);
+        expect(result.totalInterest).toBeGreaterThan(0);
+        expect(Number.isFinite(result.totalCarCost)).toBe(true);
+    });
+
+    it('splits a plug-in hybrid between fuel and charged electricity', () => {
+        const selfCharging = calculate({ powertrain: 'hybrid', fuelEfficiency: '25' });
+        const plugIn = calculate({
+            powertrain: 'hybrid',
+            fuelEfficiency: '25',
+            electricShare: '40',
+            evConsumption: '15',
+            homeChargingTariff: '8',
+        });
+
+        expect(selfCharging.energyUsed).toBeCloseTo(880 / 25);
+        expect(selfCharging.electricityUsed).toBe(0);
+        expect(selfCharging.yearlyEmissions).toBeCloseTo(((880 / 25) * 2.31 * 12) / 1000);
+
+        expect(plugIn.energyUsed).toBeCloseTo(528 / 25);
+        expect(plugIn.electricityUsed).toBeCloseTo(352 * 0.15);
+        expect(plugIn.fuelCosts).toBeCloseTo((528 / 25) * 100 + 352 * 0.15 * 8);
+        expect(plugIn.yearlyEmissions).toBeCloseTo((((528 / 25) * 2.31 + 352 * 0.15 * 0.71) * 12) / 1000);
+    });
+});
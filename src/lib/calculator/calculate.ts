@@ -0,0 +1,159 @@
+import { calculateCommuteCosts, getCommuteDays } from './commute';
+import { resaleValueAt } from './depreciation';
+import { calculateCarEmissions, calculateTransitEmissions } from './emissions';
+import { buildAmortizationSchedule } from './loan';
+import { buildMaintenanceSchedule, usesMaintenanceSchedule } from './maintenance';
+import { monthlyRepairCost, monthlySharingCost, withOwnershipFields } from './ownership';
+import { calculateEnergy } from './powertrain';
+import { projectCosts } from './projection';
+import { calculateTaxSaving } from './tax';
+import { calculateTimeValue } from './time-value';
+import { CalculationResult, CalculatorInput } from './types';
+
+export const calculateCosts = (input: CalculatorInput): CalculationResult => {
+    const values = withOwnershipFields(input);
+
+    // Calculate monthly fuel or electricity costs for the days driven to work
+    // and any leisure driving
+    const days = getCommuteDays(values);
+    const monthlyDistance = values.distanceToWork * 2 * days.carDays + values.leisureDistance;
+    const energy = calculateEnergy(values, monthlyDistance);
+    const { energyUsed, electricityUsed, cost: monthlyFuelCosts } = energy;
+
+    // Calculate monthly depreciation from the resale value the depreciation
+    // model expects, which also falls with the distance driven
+    const ownershipMonths = (values.resaleYears > 0 ? values.resaleYears : 1) * 12;
+    const resaleValue = resaleValueAt(values, monthlyDistance, ownershipMonths / 12);
+    const totalDepreciation = values.carPrice - resaleValue;
+    const monthlyDepreciation = totalDepreciation / ownershipMonths;
+
+    // A service schedule replaces the flat estimate, part of which grows with
+    // the distance driven, and is averaged over the ownership period
+    const maintenanceSchedule = buildMaintenanceSchedule(values, monthlyDistance, Math.max(Math.round(ownershipMonths), 1));
+    const monthlyMaintenance = usesMaintenanceSchedule(values)
+        ? maintenanceSchedule.reduce((sum, event) => sum + event.cost, 0) / ownershipMonths
+        : values.maintenanceCosts + values.maintenancePerDistance * monthlyDistance;
+
+    // A used car's repairs are averaged at its age halfway through ownership
+    const monthlyRepairs = monthlyRepairCost(values, ownershipMonths / 24);
+
+    // Subscriptions and car-sharing replace buying with fees. A subscription's
+    // upfront fee is spread over the term like a purchase.
+    const monthlySubscription = values.subscriptionFee + values.subscriptionUpfront / ownershipMonths;
+    const monthlySharing = monthlySharingCost(values, monthlyDistance);
+
+    // A home charger is a one-off cost spread over the ownership period
+    const chargerInstallCost = values.powertrain === 'ev' || values.powertrain === 'hybrid' ? values.chargerInstallCost : 0;
+    const monthlyChargerCost = chargerInstallCost / ownershipMonths;
+
+    // Calculate loan EMI and the interest paid while the car is owned.
+    // A loan that outlives the ownership period is closed from the sale,
+    // so only the interest accrued until then is a cost of ownership.
+    const loanAmount = values.loanTenure > 0 ? Math.max(values.carPrice - values.downPayment, 0) : 0;
+    const { emi, schedule } = loanAmount > 0
+        ? buildAmortizationSchedule(loanAmount, values.interestRate, Math.max(Math.round(values.loanTenure * 12), 1))
+        : { emi: 0, schedule: [] };
+    const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+    const interestWhileOwned = schedule
+        .filter(row => row.month <= ownershipMonths)
+        .reduce((sum, row) => sum + row.interest, 0);
+    const monthlyInterest = interestWhileOwned / ownershipMonths;
+
+    // Parking, tolls and fines are paid every month regardless of the car's age
+    const monthlyFixedCarCosts = values.parkingCosts + values.tollCosts + values.trafficFines;
+
+    // A car owner who doesn't drive every day pays for public transport on the rest
+    const monthlyCarTransitCosts = calculateCommuteCosts(values, days.transitDays)
+        .reduce((sum, item) => sum + item.monthlyCost, 0);
+
+    // Employer leases and self-employed deductions cut income tax on part of the costs
+    const monthlyTaxSaving = calculateTaxSaving(values, {
+        fuel: monthlyFuelCosts,
+        depreciation: monthlyDepreciation,
+        interest: monthlyInterest,
+        upkeep: monthlyMaintenance + monthlyRepairs + values.insuranceCosts / 12,
+        fees: monthlySubscription + monthlySharing,
+    });
+
+    // Calculate total monthly car costs, after any tax saving
+    const monthlyCarCosts =
+        monthlyFuelCosts +
+        monthlyMaintenance +
+        monthlyRepairs +
+        monthlySubscription +
+        monthlySharing +
+        (values.insuranceCosts / 12) +
+        monthlyDepreciation +
+        monthlyInterest +
+        monthlyChargerCost +
+        monthlyFixedCarCosts +
+        monthlyCarTransitCosts -
+        monthlyTaxSaving;
+
+    // Calculate monthly public transport costs
+    const commuteBreakdown = calculateCommuteCosts(values, days.officeDays, values.cabDaysPerMonth);
+    const monthlyCommuteCosts = commuteBreakdown.reduce((sum, item) => sum + item.monthlyCost, 0);
+
+    // Calculate yearly costs
+    const yearlyCarCosts = monthlyCarCosts * 12;
+    const yearlyCommuteCosts = monthlyCommuteCosts * 12;
+
+    // Calculate yearly emissions of both options
+    const carEmissions = calculateCarEmissions(values, energy) + calculateTransitEmissions(values, days.transitDays);
+    const transitEmissions = calculateTransitEmissions(values, days.officeDays, values.cabDaysPerMonth);
+
+    const { projection, breakEvenYear } = projectCosts(values, {
+        monthlyFuelCosts,
+        monthlyMaintenance,
+        maintenanceSchedule: usesMaintenanceSchedule(values) ? maintenanceSchedule : null,
+        monthlyFixedCarCosts,
+        monthlyCarTransitCosts,
+        monthlyFees: values.subscriptionFee + monthlySharing,
+        monthlyTaxSaving,
+        monthlyCommuteCosts,
+        resaleValue,
+        upfrontPayment: (loanAmount > 0 ? values.downPayment : values.carPrice) + chargerInstallCost + values.subscriptionUpfront,
+        emi,
+        schedule,
+    });
+
+    return {
+        totalCarCost: monthlyCarCosts,
+        totalCommuteCost: monthlyCommuteCosts,
+        commuteBreakdown,
+        monthlySavings: monthlyCommuteCosts - monthlyCarCosts,
+        yearlySavings: yearlyCommuteCosts - yearlyCarCosts,
+        powertrain: values.powertrain,
+        ownership: values.ownership,
+        taxProfile: values.taxProfile,
+        energyUsed,
+        electricityUsed,
+        fuelCosts: monthlyFuelCosts,
+        chargerCost: monthlyChargerCost,
+        maintenanceCost: monthlyMaintenance,
+        repairCost: monthlyRepairs,
+        subscriptionCost: monthlySubscription,
+        sharingCost: monthlySharing,
+        insuranceCost: values.insuranceCosts / 12,
+        depreciationCost: monthlyDepreciation,
+        resaleValue,
+        interestCost: monthlyInterest,
+        parkingCost: values.parkingCosts,
+        tollCost: values.tollCosts,
+        fineCost: values.trafficFines,
+        taxSaving: monthlyTaxSaving,
+        carTransitCost: monthlyCarTransitCosts,
+        distanceDriven: monthlyDistance,
+        loanAmount,
+        monthlyEmi: emi,
+        totalInterest,
+        amortizationSchedule: schedule,
+        maintenanceSchedule,
+        projection,
+        breakEvenYear,
+        ...calculateTimeValue(values, days, monthlyCarCosts, monthlyCommuteCosts),
+        yearlyEmissions: carEmissions,
+        transitEmissions,
+        emissionsAvoided: carEmissions - transitEmissions,
+    };
+};
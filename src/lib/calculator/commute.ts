@@ -0,0 +1,67 @@
+import { CalculatorInput, CommuteCostItem, CommuteLeg, CommuteMode } from './types';
+
+export const COMMUTE_MODE_LABELS: Record<CommuteMode, string> = {
+    metro: 'Metro',
+    bus: 'Bus',
+    train: 'Suburban Train',
+    auto: 'Auto-rickshaw',
+    cab: 'Cab',
+    other: 'Other',
+};
+
+const legLabel = (leg: CommuteLeg) =>
+    leg.fareType === 'monthly-pass'
+        ? `${COMMUTE_MODE_LABELS[leg.mode]} pass`
+        : `${COMMUTE_MODE_LABELS[leg.mode]} (${leg.tripsPerDay} trip${leg.tripsPerDay === 1 ? '' : 's'}/day)`;
+
+export interface CommuteDays {
+    /** Days driven to work each month when you own the car */
+    carDays: number;
+    /** Days on public transport each month when you own the car */
+    transitDays: number;
+    /** Days at the workplace each month, all on public transport without a car */
+    officeDays: number;
+}
+
+/**
+ * Splits the working days in a month in the proportions of a typical week.
+ * Work-from-home days need no commute with either option.
+ */
+export const getCommuteDays = (values: CalculatorInput): CommuteDays => {
+    const daysPerWeek = values.carDaysPerWeek + values.transitDaysPerWeek + values.wfhDaysPerWeek;
+    if (daysPerWeek <= 0) return { carDays: 0, transitDays: 0, officeDays: 0 };
+
+    const carDays = (values.workingDaysPerMonth * values.carDaysPerWeek) / daysPerWeek;
+    const transitDays = (values.workingDaysPerMonth * values.transitDaysPerWeek) / daysPerWeek;
+    return { carDays, transitDays, officeDays: carDays + transitDays };
+};
+
+const formatDays = (days: number) => `${Number(days.toFixed(1))} day${days === 1 ? '' : 's'}`;
+
+/**
+ * Itemizes the monthly public transport spend over the given commute days.
+ * Per-trip fares scale with those days, and without any legs the single
+ * monthly figure, which covers commuting every working day, is prorated.
+ * Occasional cab days replace the regular commute on those days; monthly
+ * passes are paid in full whenever there is a day left to use them.
+ */
+export const calculateCommuteCosts = (values: CalculatorInput, commuteDays: number, cabDaysPerMonth = 0): CommuteCostItem[] => {
+    const cabDays = Math.min(cabDaysPerMonth, commuteDays);
+    const transitDays = commuteDays - cabDays;
+    const workingShare = values.workingDaysPerMonth > 0 ? commuteDays / values.workingDaysPerMonth : 0;
+
+    const items: CommuteCostItem[] = values.commuteLegs.length > 0
+        ? values.commuteLegs.map(leg => ({
+            label: legLabel(leg),
+            monthlyCost: leg.fareType === 'monthly-pass'
+                ? (transitDays > 0 ? leg.cost : 0)
+                : leg.cost * leg.tripsPerDay * transitDays,
+        }))
+        : [{ label: 'Public transport', monthlyCost: values.publicTransportCosts * workingShare }];
+
+    if (cabDays > 0 && values.cabFarePerDay > 0) {
+        items.push({ label: `Occasional cab (${formatDays(cabDays)})`, monthlyCost: cabDays * values.cabFarePerDay });
+    }
+
+    return items;
+};
@@ -0,0 +1,133 @@
+import { UNIT_SYSTEMS } from './locale';
+import { CalculatorField, CalculatorInput, DepreciationModel, VehicleSegment } from './types';
+
+interface DepreciationModelInfo {
+    label: string;
+    description: string;
+}
+
+export const DEPRECIATION_MODELS: Record<DepreciationModel, DepreciationModelInfo> = {
+    'straight-line': {
+        label: 'Straight Line',
+        description: 'Loses the same amount every year, down to the resale value you expect.',
+    },
+    'declining-balance': {
+        label: 'Declining Balance',
+        description: 'Loses a fixed share of its remaining value every year, so the first years cost the most.',
+    },
+    segment: {
+        label: 'By Segment',
+        description: 'Follows a typical resale curve for the segment, adjusted for how far the car is driven.',
+    },
+};
+
+export const isDepreciationModel = (value: unknown): value is DepreciationModel =>
+    typeof value === 'string' && Object.hasOwn(DEPRECIATION_MODELS, value);
+
+interface VehicleSegmentInfo {
+    label: string;
+    /** Share of the new price a vehicle is worth at each age in years, from new */
+    retention: number[];
+    /** Distance a vehicle of the segment is typically driven in a year, in km */
+    typicalYearlyKm: number;
+}
+
+// Indicative curves from Indian used-car listings; the steep first year is
+// the drop from a new to a used vehicle
+export const VEHICLE_SEGMENTS: Record<VehicleSegment, VehicleSegmentInfo> = {
+    hatchback: {
+        label: 'Hatchback',
+        retention: [1, 0.8, 0.72, 0.65, 0.58, 0.52, 0.47, 0.42, 0.38, 0.34, 0.3],
+        typicalYearlyKm: 12000,
+    },
+    sedan: {
+        label: 'Sedan',
+        retention: [1, 0.78, 0.69, 0.61, 0.54, 0.48, 0.43, 0.38, 0.34, 0.3, 0.27],
+        typicalYearlyKm: 12000,
+    },
+    suv: {
+        label: 'SUV',
+        retention: [1, 0.82, 0.75, 0.68, 0.62, 0.56, 0.51, 0.46, 0.42, 0.38, 0.35],
+        typicalYearlyKm: 12000,
+    },
+    luxury: {
+        label: 'Luxury',
+        retention: [1, 0.72, 0.61, 0.52, 0.45, 0.39, 0.34, 0.3, 0.26, 0.23, 0.2],
+        typicalYearlyKm: 10000,
+    },
+    electric: {
+        label: 'Electric',
+        retention: [1, 0.72, 0.6, 0.51, 0.44, 0.38, 0.33, 0.29, 0.25, 0.22, 0.19],
+        typicalYearlyKm: 12000,
+    },
+    'two-wheeler': {
+        label: 'Two-Wheeler',
+        retention: [1, 0.78, 0.68, 0.6, 0.53, 0.47, 0.42, 0.37, 0.33, 0.29, 0.26],
+        typicalYearlyKm: 8000,
+    },
+};
+
+export const isVehicleSegment = (value: unknown): value is VehicleSegment =>
+    typeof value === 'string' && Object.hasOwn(VEHICLE_SEGMENTS, value);
+
+const MODEL_FIELDS: Record<DepreciationModel, CalculatorField[]> = {
+    'straight-line': ['resaleValue', 'depreciationPerDistance'],
+    'declining-balance': ['depreciationRate', 'depreciationPerDistance'],
+    segment: [],
+};
+
+const DEPRECIATION_FIELDS: CalculatorField[] = ['resaleValue', 'depreciationRate', 'depreciationPerDistance'];
+
+export const isFieldUsedByDepreciationModel = (field: CalculatorField, depreciationModel: DepreciationModel) =>
+    !DEPRECIATION_FIELDS.includes(field) || MODEL_FIELDS[depreciationModel].includes(field);
+
+export const getDepreciationRequiredFields = (depreciationModel: DepreciationModel): CalculatorField[] =>
+    depreciationModel === 'declining-balance' ? ['depreciationRate'] : [];
+
+// Value lost for each 100% the odometer is above what's typical for the age
+const MILEAGE_SENSITIVITY = 0.15;
+
+/** Share of the new price left at the given age, continuing the curve's last yearly rate beyond its end */
+const retentionAt = ({ retention }: VehicleSegmentInfo, age: number) => {
+    const last = retention.length - 1;
+    if (age >= last) return retention[last] * Math.pow(retention[last] / retention[last - 1], age - last);
+    const year = Math.floor(age);
+    return retention[year] + (retention[year + 1] - retention[year]) * (age - year);
+};
+
+/**
+ * Expected resale value after the given years of ownership. Straight-line
+ * depreciation runs from the price to the expected resale value at
+ * `resaleYears` and carries on at the same rate for other holding periods.
+ * Both it and declining balance then take off the per-distance loss. The
+ * segment curve starts from a used car's age, and is scaled down for a
+ * higher odometer than typical or up for a lower one.
+ */
+export const resaleValueAt = (values: CalculatorInput, monthlyDistance: number, years: number) => {
+    const distanceLoss = values.depreciationPerDistance * monthlyDistance * 12 * years;
+
+    switch (values.depreciationModel) {
+        case 'declining-balance': {
+            const rate = Math.min(Math.max(values.depreciationRate, 0), 100) / 100;
+            return Math.max(values.carPrice * Math.pow(1 - rate, years) - distanceLoss, 0);
+        }
+        case 'segment': {
+            const segment = VEHICLE_SEGMENTS[values.vehicleSegment];
+            const age = values.carAgeYears + years;
+            const curve = retentionAt(segment, age) / retentionAt(segment, values.carAgeYears);
+
+            // A used car is assumed to have been driven the typical distance before it was bought
+            const kmPerUnit = UNIT_SYSTEMS[values.locale.units].kmPerDistanceUnit;
+            const odometerKm = segment.typicalYearlyKm * values.carAgeYears + monthlyDistance * 12 * years * kmPerUnit;
+            const mileageRatio = age > 0 ? odometerKm / (segment.typicalYearlyKm * age) : 1;
+            const mileageAdjustment = Math.min(Math.max(1 - MILEAGE_SENSITIVITY * (mileageRatio - 1), 0.6), 1.1);
+
+            return values.carPrice * curve * mileageAdjustment;
+        }
+        default: {
+            const resaleYears = values.resaleYears > 0 ? values.resaleYears : 1;
+            const yearlyLoss = (values.carPrice - values.resaleValue) / resaleYears;
+            return Math.max(values.carPrice - yearlyLoss * years - distanceLoss, 0);
+        }
+    }
+};
@@ -0,0 +1,98 @@
+import { UNIT_SYSTEMS } from './locale';
+import { CalculatorInput, CommuteMode, Powertrain } from './types';
+
+export interface EmissionFactors {
+    /** kg CO2 per liter (petrol, diesel, hybrid) or kg (CNG) of fuel burned */
+    tailpipe: Record<Exclude<Powertrain, 'ev'>, number>;
+    /** kg CO2 per passenger-km for each public transport mode */
+    transit: Record<CommuteMode, number>;
+}
+
+// Tailpipe factors follow the IPCC default carbon content of each fuel.
+// Transit factors are indicative averages for Indian cities at typical
+// occupancy; "other" stands in for a mixed bus and metro commute.
+export const DEFAULT_EMISSION_FACTORS: EmissionFactors = {
+    tailpipe: {
+        petrol: 2.31,
+        diesel: 2.68,
+        cng: 2.75,
+        hybrid: 2.31,
+    },
+    transit: {
+        metro: 0.03,
+        bus: 0.05,
+        train: 0.02,
+        auto: 0.07,
+        cab: 0.14,
+        other: 0.04,
+    },
+};
+
+export interface EmissionEquivalent {
+    label: string;
+    /** kg CO2 represented by one unit of the equivalent */
+    kgPerUnit: number;
+}
+
+export const EMISSION_EQUIVALENTS: EmissionEquivalent[] = [
+    { label: 'trees absorbing CO2 for a year', kgPerUnit: 21 },
+    { label: 'one-way Delhi–Mumbai flights', kgPerUnit: 160 },
+    { label: 'LPG cylinders (14.2 kg) cooked with', kgPerUnit: 42.6 },
+    { label: 'smartphones charged', kgPerUnit: 0.008 },
+];
+
+/**
+ * Yearly CO2 of the car in metric tons, from the energy it uses each month:
+ * fuel in the powertrain's unit, and kWh charged from the grid by an EV or a
+ * plug-in hybrid.
+ */
+export const calculateCarEmissions = (
+    values: CalculatorInput,
+    { energyUsed, electricityUsed }: { energyUsed: number; electricityUsed: number },
+    factors: EmissionFactors = DEFAULT_EMISSION_FACTORS
+) => {
+    // Charging uses the grid's carbon intensity, in kg CO2 per kWh
+    const gridKg = electricityUsed * values.gridCarbonIntensity;
+    if (values.powertrain === 'ev') {
+        return (gridKg * 12) / 1000; // Convert to metric tons
+    }
+    // Liquid fuel is used in the volume it is priced in, which may be gallons
+    const litersPerUnit = values.powertrain === 'cng' ? 1 : UNIT_SYSTEMS[values.locale.units].litersPerPriceVolume;
+    return ((energyUsed * litersPerUnit * factors.tailpipe[values.powertrain] + gridKg) * 12) / 1000;
+};
+
+/**
+ * Yearly CO2 of public transport over the given commute days, in metric
+ * tons. Legs use their own distance and mode; without leg distances the
+ * one-way distance to work is used at the mixed-transit factor. Cab days are
+ * counted as cab rides. Distances entered in miles are converted to km for
+ * the factors.
+ */
+export const calculateTransitEmissions = (
+    values: CalculatorInput,
+    commuteDays: number,
+    cabDaysPerMonth = 0,
+    factors: EmissionFactors = DEFAULT_EMISSION_FACTORS
+) => {
+    const kmPerUnit = UNIT_SYSTEMS[values.locale.units].kmPerDistanceUnit;
+    const cabDays = Math.min(cabDaysPerMonth, commuteDays);
+    const transitDays = commuteDays - cabDays;
+
+    const legsKg = values.commuteLegs.reduce(
+        (sum, leg) => sum + leg.distance * leg.tripsPerDay * transitDays * factors.transit[leg.mode],
+        0
+    );
+    const monthlyTransitKg = legsKg > 0
+        ? legsKg
+        : values.distanceToWork * 2 * transitDays * factors.transit.other;
+    const monthlyCabKg = values.distanceToWork * 2 * cabDays * factors.transit.cab;
+
+    return ((monthlyTransitKg + monthlyCabKg) * kmPerUnit * 12) / 1000;
+};
+
+/** How many of each equivalent add up to the given metric tons of CO2 */
+export const calculateEquivalents = (tons: number, equivalents: EmissionEquivalent[] = EMISSION_EQUIVALENTS) =>
+    equivalents.map(equivalent => ({
+        label: equivalent.label,
+        amount: (tons * 1000) / equivalent.kgPerUnit,
+    }));
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+    convertToWords,
+    formatCompactNumber,
+    formatIndianNumber,
+    formatIndianWords,
+    formatNumberWords,
+} from './format';
+import { formatCurrency } from './locale';
+
+describe('formatCompactNumber', () => {
+    it('groups Indian amounts into crores, lakhs and thousands', () => {
+        expect(formatIndianNumber(25000000)).toBe('2.50 Cr');
+        expect(formatIndianNumber(1234500000)).toBe('123.45 Cr');
+        expect(formatIndianNumber(150000)).toBe('1.50 L');
+        expect(formatIndianNumber(2500)).toBe('2.50 K');
+        expect(formatIndianNumber(999)).toBe('999.00');
+    });
+
+    it('groups western amounts into billions, millions and thousands', () => {
+        expect(formatCompactNumber(25000000, 'western')).toBe('25.00 M');
+        expect(formatCompactNumber(3000000000, 'western')).toBe('3.00 B');
+    });
+
+    it('keeps the sign of negative amounts', () => {
+        expect(formatIndianNumber(-15000000)).toBe('-1.50 Cr');
+        expect(formatIndianNumber(0)).toBe('0.00');
+    });
+});
+
+describe('formatNumberWords', () => {
+    it('reads out crore-scale amounts', () => {
+        expect(formatIndianWords(25000000)).toBe('2.50 crores');
+        expect(formatNumberWords(25000000, 'western')).toBe('25.00 million');
+        expect(formatIndianWords(512)).toBe('five hundred twelve');
+    });
+});
+
+describe('convertToWords', () => {
+    it('handles empty, zero and invalid input', () => {
+        expect(convertToWords('')).toBe('');
+        expect(convertToWords('abc')).toBe('');
+        expect(convertToWords('0')).toBe('zero');
+        expect(convertToWords('10000000')).toBe('1.00 crores');
+    });
+});
+
+describe('formatCurrency', () => {
+    it('puts the sign before the currency symbol', () => {
+        const locale = { currency: 'INR', numberSystem: 'indian', units: 'metric' } as const;
+        expect(formatCurrency(25000000, locale)).toBe('₹2.50 Cr');
+        expect(formatCurrency(-5000, locale)).toBe('-₹5.00 K');
+    });
+});
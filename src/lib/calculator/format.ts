@@ -0,0 +1,48 @@
+import numberToWords from 'number-to-words';
+import { NumberSystem } from './types';
+
+const SCALES: Record<NumberSystem, { value: number; short: string; words: string }[]> = {
+    indian: [
+        { value: 10000000, short: 'Cr', words: 'crores' },
+        { value: 100000, short: 'L', words: 'lakhs' },
+        { value: 1000, short: 'K', words: 'thousand' },
+    ],
+    western: [
+        { value: 1000000000, short: 'B', words: 'billion' },
+        { value: 1000000, short: 'M', words: 'million' },
+        { value: 1000, short: 'K', words: 'thousand' },
+    ],
+};
+
+export const formatCompactNumber = (num: number, numberSystem: NumberSystem = 'indian'): string => {
+    const sign = num < 0 ? '-' : '';
+    const abs = Math.abs(num);
+    const scale = SCALES[numberSystem].find(item => abs >= item.value);
+    if (scale) {
+        return `${sign}${(abs / scale.value).toFixed(2)} ${scale.short}`;
+    }
+    return num.toFixed(2);
+};
+
+export const formatNumberWords = (num: number, numberSystem: NumberSystem = 'indian'): string => {
+    const scale = SCALES[numberSystem].find(item => num >= item.value);
+    if (scale) {
+        return `${(num / scale.value).toFixed(2)} ${scale.words}`;
+    }
+    return numberToWords.toWords(Math.round(num));
+};
+
+export const formatIndianNumber = (num: number): string => formatCompactNumber(num, 'indian');
+
+export const formatIndianWords = (num: number): string => formatNumberWords(num, 'indian');
+
+export const convertToWords = (value: string, numberSystem: NumberSystem = 'indian'): string => {
+    if (!value || isNaN(parseFloat(value))) return '';
+    const number = parseFloat(value);
+    if (number === 0) return 'zero';
+    try {
+        return formatNumberWords(number, numberSystem);
+    } catch {
+        return '';
+    }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCosts } from './calculate';
+import { getGoalSeekBounds, solveBreakEven } from './goal-seek';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+import { CalculatorFormValues } from './types';
+
+const input = (overrides: Partial<CalculatorFormValues> = {}) => parseFormValues({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '400000',
+    resaleYears: '5',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    insuranceCosts: '24000',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+    ...overrides,
+});
+
+describe('getGoalSeekBounds', () => {
+    it('searches up to ten times the value, from above zero where zero is invalid', () => {
+        expect(getGoalSeekBounds(input(), 'fuelPrice')).toEqual({ min: 0, max: 1000 });
+        expect(getGoalSeekBounds(input(), 'carPrice')).toEqual({ min: 10000, max: 10000000 });
+        expect(getGoalSeekBounds(input(), 'workingDaysPerMonth').max).toBe(31);
+    });
+});
+
+describe('solveBreakEven', () => {
+    it('finds the fare at which both options cost the same each month', () => {
+        const values = input();
+        const { value, curve } = solveBreakEven(values, 'publicTransportCosts', 'monthly');
+        const atBreakEven = calculateCosts({ ...values, publicTransportCosts: value! });
+
+        expect(value).not.toBeNull();
+        expect(value).toBeCloseTo(calculateCosts(values).totalCarCost, 0);
+        expect(atBreakEven.totalCommuteCost).toBeCloseTo(atBreakEven.totalCarCost, 0);
+        expect(curve).toHaveLength(41);
+    });
+
+    it('solves against the total over the ownership period', () => {
+        const values = input();
+        const { value } = solveBreakEven(values, 'publicTransportCosts', 'total');
+        const final = calculateCosts({ ...values, publicTransportCosts: value! }).projection.at(-1)!;
+
+        expect(value).not.toBeNull();
+        expect(final.cumulativeCar).toBeCloseTo(final.cumulativeCommute, -1);
+    });
+
+    it('reports no break-even when one option is cheaper across the whole range', () => {
+        const result = solveBreakEven(input({ publicTransportCosts: '1000000' }), 'fuelPrice', 'monthly');
+
+        expect(result.value).toBeNull();
+        expect(result.curve.every(point => point.car < point.commute)).toBe(true);
+    });
+});
@@ -0,0 +1,81 @@
+import { calculateCosts } from './calculate';
+import { FIELD_MAXIMUMS } from './sensitivity';
+import { CalculatorField, CalculatorInput } from './types';
+
+/** Compare monthly running costs, or total costs over the whole ownership period */
+export type GoalSeekTarget = 'monthly' | 'total';
+
+export interface GoalSeekPoint {
+    value: number;
+    car: number;
+    commute: number;
+}
+
+export interface GoalSeekResult {
+    field: CalculatorField;
+    target: GoalSeekTarget;
+    /** The input value at which both options cost the same, or null if they never do within the bounds */
+    value: number | null;
+    min: number;
+    max: number;
+    /** Both options' costs across the bounds, for charting */
+    curve: GoalSeekPoint[];
+}
+
+// Inputs the engine can't take as zero are searched from just above it
+const POSITIVE_FIELDS: CalculatorField[] = ['carPrice', 'fuelEfficiency', 'evConsumption', 'workingDaysPerMonth', 'resaleYears'];
+
+const costsAt = (values: CalculatorInput, field: CalculatorField, value: number, target: GoalSeekTarget): GoalSeekPoint => {
+    const result = calculateCosts({ ...values, [field]: value });
+    if (target === 'monthly') {
+        return { value, car: result.totalCarCost, commute: result.totalCommuteCost };
+    }
+    const finalYear = result.projection[result.projection.length - 1];
+    return { value, car: finalYear.cumulativeCar, commute: finalYear.cumulativeCommute };
+};
+
+const savings = (point: GoalSeekPoint) => point.commute - point.car;
+
+/** Searches from zero to ten times the current value, within the input's valid range */
+export const getGoalSeekBounds = (values: CalculatorInput, field: CalculatorField) => {
+    const max = Math.min(Math.max(values[field] * 10, 1), FIELD_MAXIMUMS[field] ?? Infinity);
+    return { min: POSITIVE_FIELDS.includes(field) ? max / 1000 : 0, max };
+};
+
+/**
+ * Finds the value of one input at which buying stops or starts paying off,
+ * holding every other input fixed. The bounds are scanned first so a
+ * crossing can be found even if savings don't move in one direction, then
+ * the crossing nearest the current value is narrowed down by bisection.
+ */
+export const solveBreakEven = (
+    values: CalculatorInput,
+    field: CalculatorField,
+    target: GoalSeekTarget,
+    steps = 40
+): GoalSeekResult => {
+    const { min, max } = getGoalSeekBounds(values, field);
+    const curve = Array.from({ length: steps + 1 }, (_, i) => costsAt(values, field, min + ((max - min) * i) / steps, target));
+
+    const crossings = curve.slice(1)
+        .map((point, i) => ({ lower: curve[i], upper: point }))
+        .filter(({ lower, upper }) => Math.sign(savings(lower)) !== Math.sign(savings(upper)));
+    if (crossings.length === 0) {
+        return { field, target, value: null, min, max, curve };
+    }
+
+    const nearest = crossings.reduce((best, crossing) =>
+        Math.abs(crossing.lower.value - values[field]) < Math.abs(best.lower.value - values[field]) ? crossing : best
+    );
+    let { lower, upper } = nearest;
+    for (let i = 0; i < 60 && upper.value - lower.value > (max - min) * 1e-9; i++) {
+        const middle = costsAt(values, field, (lower.value + upper.value) / 2, target);
+        if (Math.sign(savings(middle)) === Math.sign(savings(lower))) {
+            lower = middle;
+        } else {
+            upper = middle;
+        }
+    }
+
+    return { field, target, value: (lower.value + upper.value) / 2, min, max, curve };
+};
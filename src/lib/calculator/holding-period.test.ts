@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { resaleValueAt } from './depreciation';
+import { compareHoldingPeriods } from './holding-period';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+
+const values = parseFormValues({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '500000',
+    resaleYears: '5',
+    depreciationPerDistance: '1',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+});
+
+describe('compareHoldingPeriods', () => {
+    it('values a straight-line car at each period as the depreciation model does', () => {
+        const periods = compareHoldingPeriods(values, 8);
+        const monthlyDistance = 20 * 2 * 22;
+
+        periods.forEach(period => {
+            expect(period.resaleValue).toBeCloseTo(resaleValueAt(values, monthlyDistance, period.years));
+        });
+        expect(periods[4].resaleValue).toBeCloseTo(500000 - monthlyDistance * 12 * 5);
+    });
+
+    it('follows the declining balance curve for every period', () => {
+        const declining = { ...values, depreciationModel: 'declining-balance' as const, depreciationRate: 15 };
+        const periods = compareHoldingPeriods(declining, 3);
+
+        expect(periods.map(period => period.resaleValue)).toEqual(
+            [1, 2, 3].map(years => resaleValueAt(declining, 20 * 2 * 22, years))
+        );
+    });
+});
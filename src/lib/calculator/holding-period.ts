@@ -0,0 +1,38 @@
+import { calculateCosts } from './calculate';
+import { resaleValueAt } from './depreciation';
+import { CalculatorInput } from './types';
+
+export interface HoldingPeriod {
+    years: number;
+    resaleValue: number;
+    /** Average monthly cost of the car if it is sold after this many years */
+    monthlyCarCost: number;
+    monthlySavings: number;
+}
+
+/**
+ * Runs the calculation for every holding period up to `maxYears`, with the
+ * resale value each one would fetch, so the cheapest time to sell stands out.
+ * A straight-line resale value is for the planned period, so other periods
+ * carry on losing value at its yearly rate; the other models only depend on
+ * the years held.
+ */
+export const compareHoldingPeriods = (values: CalculatorInput, maxYears = 10): HoldingPeriod[] => {
+    return Array.from({ length: maxYears }, (_, index) => {
+        const years = index + 1;
+        const result = calculateCosts({
+            ...values,
+            resaleYears: years,
+            // The per-distance loss is left out here, since calculateCosts takes it off again
+            resaleValue: values.depreciationModel === 'straight-line'
+                ? resaleValueAt({ ...values, depreciationPerDistance: 0 }, 0, years)
+                : values.resaleValue,
+        });
+        return {
+            years,
+            resaleValue: result.resaleValue,
+            monthlyCarCost: result.totalCarCost,
+            monthlySavings: result.monthlySavings,
+        };
+    });
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCosts } from './calculate';
+import { calculateHousehold, createHouseholdMember, createHouseholdTrip, parseHouseholdMember, parseHouseholdTrip } from './household';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+import { DEFAULT_LOCALE } from './locale';
+import { CalculatorFormValues } from './types';
+
+const carValues = (overrides: Partial<CalculatorFormValues> = {}) => parseFormValues({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '400000',
+    resaleYears: '5',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    insuranceCosts: '24000',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+    ...overrides,
+});
+
+const member = (id: string, carId: string | null) => parseHouseholdMember({
+    ...createHouseholdMember(id, id),
+    carId,
+    distanceToWork: '10',
+    workingDaysPerMonth: '20',
+    publicTransportCosts: '2000',
+});
+
+const trip = (carId: string | null) => parseHouseholdTrip({
+    ...createHouseholdTrip('trip'),
+    carId,
+    distance: '30',
+    tripsPerMonth: '4',
+    transitFare: '100',
+});
+
+describe('calculateHousehold', () => {
+    it('costs a shared car once with all the driving assigned to it', () => {
+        const car = { id: 'car', name: 'Car 1', values: carValues() };
+        const result = calculateHousehold([member('a', 'car'), member('b', 'car')], [trip('car')], [car], DEFAULT_LOCALE);
+
+        expect(result.cars).toHaveLength(1);
+        expect(result.cars[0].distanceDriven).toBe(10 * 2 * 20 * 2 + 30 * 4);
+        const carCost = calculateCosts({
+            ...car.values,
+            distanceToWork: 0,
+            leisureDistance: result.cars[0].distanceDriven,
+            publicTransportCosts: 0,
+            commuteLegs: [],
+            cabDaysPerMonth: 0,
+        }).totalCarCost;
+        expect(result.totals.monthlyCost).toBeCloseTo(carCost);
+        expect(result.withoutCars.monthlyCost).toBe(2000 * 2 + 100 * 4);
+        expect(result.monthlySavings).toBeCloseTo(result.withoutCars.monthlyCost - carCost);
+    });
+
+    it('counts members and trips without a car on public transport', () => {
+        const car = { id: 'car', name: 'Car 1', values: carValues() };
+        const result = calculateHousehold([member('a', 'car'), member('b', null)], [trip(null)], [car], DEFAULT_LOCALE);
+
+        expect(result.members[1]).toMatchObject({ car: null, monthlyCost: 2000 });
+        expect(result.totals.monthlyCost).toBeCloseTo(result.cars[0].result.totalCarCost + 2000 + 100 * 4);
+        expect(result.excludedCars).toEqual([]);
+    });
+
+    it('leaves out a car in a different currency or units from the household', () => {
+        const cars = [
+            { id: 'usd', name: 'Dollar Car', values: carValues({ locale: { ...DEFAULT_LOCALE, currency: 'USD' } }) },
+            { id: 'miles', name: 'US Car', values: carValues({ locale: { ...DEFAULT_LOCALE, units: 'us' } }) },
+        ];
+        const result = calculateHousehold([member('a', 'usd')], [trip('miles')], cars, DEFAULT_LOCALE);
+
+        expect(result.cars).toEqual([]);
+        expect(result.excludedCars).toEqual([{ id: 'usd', name: 'Dollar Car' }, { id: 'miles', name: 'US Car' }]);
+        expect(result.members[0].car).toBeNull();
+        expect(result.totals.monthlyCost).toBe(result.withoutCars.monthlyCost);
+    });
+});
@@ -0,0 +1,215 @@
+import { calculateCosts } from './calculate';
+import { DEFAULT_EMISSION_FACTORS, EmissionFactors } from './emissions';
+import { UNIT_SYSTEMS } from './locale';
+import { CalculationResult, CalculatorInput, LocaleSettings } from './types';
+
+export const HOUSEHOLD_MEMBER_FIELDS = [
+    'distanceToWork', // km or miles one way
+    'workingDaysPerMonth', // days at the workplace
+    'publicTransportCosts', // monthly, when not driving
+    'carTravelMinutes', // door to door, one way
+    'transitTravelMinutes', // door to door, one way
+] as const;
+
+export type HouseholdMemberField = typeof HOUSEHOLD_MEMBER_FIELDS[number];
+
+/** Someone in the household who commutes, either in one of the cars or by public transport */
+export interface HouseholdMember extends Record<HouseholdMemberField, number> {
+    id: string;
+    name: string;
+    /** The car driven to work, or null for public transport */
+    carId: string | null;
+}
+
+export const HOUSEHOLD_TRIP_FIELDS = [
+    'distance', // km or miles per round trip
+    'tripsPerMonth',
+    'transitFare', // per round trip without a car
+] as const;
+
+export type HouseholdTripField = typeof HOUSEHOLD_TRIP_FIELDS[number];
+
+/** A regular trip that isn't a commute, e.g. the school run or the weekly shop */
+export interface HouseholdTrip extends Record<HouseholdTripField, number> {
+    id: string;
+    label: string;
+    carId: string | null;
+}
+
+/** A car in the household scenario, costed with its own calculator inputs */
+export interface HouseholdCar {
+    id: string;
+    name: string;
+    values: CalculatorInput;
+}
+
+export type HouseholdMemberValues = Omit<HouseholdMember, HouseholdMemberField> & Record<HouseholdMemberField, string>;
+
+export type HouseholdTripValues = Omit<HouseholdTrip, HouseholdTripField> & Record<HouseholdTripField, string>;
+
+export const createHouseholdMember = (id: string, name: string): HouseholdMemberValues => ({
+    id,
+    name,
+    carId: null,
+    distanceToWork: '',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '',
+    carTravelMinutes: '',
+    transitTravelMinutes: '',
+});
+
+export const createHouseholdTrip = (id: string): HouseholdTripValues => ({
+    id,
+    label: '',
+    carId: null,
+    distance: '',
+    tripsPerMonth: '',
+    transitFare: '',
+});
+
+export const parseHouseholdMember = (member: HouseholdMemberValues): HouseholdMember => ({
+    ...member,
+    ...Object.fromEntries(
+        HOUSEHOLD_MEMBER_FIELDS.map(field => [field, parseFloat(member[field]) || 0])
+    ) as Record<HouseholdMemberField, number>,
+});
+
+export const parseHouseholdTrip = (trip: HouseholdTripValues): HouseholdTrip => ({
+    ...trip,
+    ...Object.fromEntries(
+        HOUSEHOLD_TRIP_FIELDS.map(field => [field, parseFloat(trip[field]) || 0])
+    ) as Record<HouseholdTripField, number>,
+});
+
+export interface HouseholdCarResult {
+    id: string;
+    name: string;
+    /** Distance driven per month by everyone and every trip assigned to the car */
+    distanceDriven: number;
+    result: CalculationResult;
+}
+
+export interface HouseholdMemberResult {
+    id: string;
+    name: string;
+    /** Name of the car driven to work, or null on public transport */
+    car: string | null;
+    /** Public transport spend; driving costs are counted with the car */
+    monthlyCost: number;
+    hoursPerYear: number;
+}
+
+/** Monthly cost, yearly hours commuting and yearly metric tons of CO2 for the whole household */
+export interface HouseholdTotals {
+    monthlyCost: number;
+    hoursPerYear: number;
+    yearlyEmissions: number;
+}
+
+export interface HouseholdResult {
+    cars: HouseholdCarResult[];
+    members: HouseholdMemberResult[];
+    totals: HouseholdTotals;
+    /** The same household with no car, everyone on public transport */
+    withoutCars: HouseholdTotals;
+    monthlySavings: number;
+    /** Cars left out because their inputs are in a different currency or units from the household's */
+    excludedCars: { id: string; name: string }[];
+}
+
+const yearlyHours = (daysPerMonth: number, minutesOneWay: number) => (daysPerMonth * 2 * 12 * minutesOneWay) / 60;
+
+/**
+ * Costs a household's commutes and regular trips with the given cars,
+ * against the same household with no car. Each car is costed once with all
+ * the driving assigned to it, so a shared car's fixed costs aren't counted
+ * twice. Members and trips without a car, or with a car that isn't in the
+ * scenario, go by public transport at the mixed-transit emission factor.
+ * Distances are in the locale's units; a car whose inputs are in another
+ * currency or units can't be added up with the rest, so it is left out.
+ */
+export const calculateHousehold = (
+    members: HouseholdMember[],
+    trips: HouseholdTrip[],
+    cars: HouseholdCar[],
+    locale: LocaleSettings,
+    factors: EmissionFactors = DEFAULT_EMISSION_FACTORS
+): HouseholdResult => {
+    const kmPerUnit = UNIT_SYSTEMS[locale.units].kmPerDistanceUnit;
+    const transitTons = (monthlyDistance: number) => (monthlyDistance * kmPerUnit * 12 * factors.transit.other) / 1000;
+    const inLocale = (car: HouseholdCar) =>
+        car.values.locale.currency === locale.currency && car.values.locale.units === locale.units;
+    const costedCars = cars.filter(inLocale);
+    const carFor = (carId: string | null) => costedCars.find(car => car.id === carId);
+
+    const carResults = costedCars.map(car => {
+        const distanceDriven =
+            members
+                .filter(member => member.carId === car.id)
+                .reduce((sum, member) => sum + member.distanceToWork * 2 * member.workingDaysPerMonth, 0) +
+            trips
+                .filter(trip => trip.carId === car.id)
+                .reduce((sum, trip) => sum + trip.distance * trip.tripsPerMonth, 0);
+
+        // All the car's driving is passed as leisure distance, with the
+        // single commuter's own commute switched off
+        const result = calculateCosts({
+            ...car.values,
+            distanceToWork: 0,
+            leisureDistance: distanceDriven,
+            publicTransportCosts: 0,
+            commuteLegs: [],
+            cabDaysPerMonth: 0,
+        });
+        return { id: car.id, name: car.name, distanceDriven, result };
+    });
+
+    const memberResults = members.map(member => {
+        const car = carFor(member.carId);
+        return {
+            id: member.id,
+            name: member.name,
+            car: car?.name ?? null,
+            monthlyCost: car ? 0 : member.publicTransportCosts,
+            hoursPerYear: yearlyHours(
+                member.workingDaysPerMonth,
+                car ? member.carTravelMinutes : member.transitTravelMinutes
+            ),
+        };
+    });
+
+    const tripsByTransit = trips.filter(trip => !carFor(trip.carId));
+    const membersByTransit = members.filter(member => !carFor(member.carId));
+    const commuteDistance = (member: HouseholdMember) => member.distanceToWork * 2 * member.workingDaysPerMonth;
+    const tripCost = (list: HouseholdTrip[]) => list.reduce((sum, trip) => sum + trip.transitFare * trip.tripsPerMonth, 0);
+    const tripDistance = (list: HouseholdTrip[]) => list.reduce((sum, trip) => sum + trip.distance * trip.tripsPerMonth, 0);
+
+    const totals: HouseholdTotals = {
+        monthlyCost:
+            carResults.reduce((sum, car) => sum + car.result.totalCarCost, 0) +
+            memberResults.reduce((sum, member) => sum + member.monthlyCost, 0) +
+            tripCost(tripsByTransit),
+        hoursPerYear: memberResults.reduce((sum, member) => sum + member.hoursPerYear, 0),
+        yearlyEmissions:
+            carResults.reduce((sum, car) => sum + car.result.yearlyEmissions, 0) +
+            transitTons(membersByTransit.reduce((sum, member) => sum + commuteDistance(member), 0) + tripDistance(tripsByTransit)),
+    };
+
+    const withoutCars: HouseholdTotals = {
+        monthlyCost: members.reduce((sum, member) => sum + member.publicTransportCosts, 0) + tripCost(trips),
+        hoursPerYear: members.reduce(
+            (sum, member) => sum + yearlyHours(member.workingDaysPerMonth, member.transitTravelMinutes),
+            0
+        ),
+        yearlyEmissions: transitTons(members.reduce((sum, member) => sum + commuteDistance(member), 0) + tripDistance(trips)),
+    };
+
+    return {
+        cars: carResults,
+        members: memberResults,
+        totals,
+        withoutCars,
+        monthlySavings: withoutCars.monthlyCost - totals.monthlyCost,
+        excludedCars: cars.filter(car => !inLocale(car)).map(({ id, name }) => ({ id, name })),
+    };
+};
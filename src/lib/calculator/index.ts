@@ -0,0 +1,23 @@
+export * from './types';
+export * from './input';
+export * from './validation';
+export * from './format';
+export * from './locale';
+export * from './loan';
+export * from './commute';
+export * from './powertrain';
+export * from './ownership';
+export * from './maintenance';
+export * from './depreciation';
+export * from './tax';
+export * from './emissions';
+export * from './projection';
+export * from './time-value';
+export * from './calculate';
+export * from './holding-period';
+export * from './payload';
+export * from './sensitivity';
+export * from './monte-carlo';
+export * from './goal-seek';
+export * from './household';
+export * from './summary';
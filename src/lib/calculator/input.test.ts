@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FORM_VALUES, parseFormValues, toFormValues } from './input';
+
+describe('toFormValues', () => {
+    it('parses back into the same input', () => {
+        const input = parseFormValues({
+            ...EMPTY_FORM_VALUES,
+            carPrice: '1000000',
+            fuelPrice: '102.5',
+            carDaysPerWeek: '0',
+            transitDaysPerWeek: '5',
+        });
+        const values = toFormValues(input);
+
+        expect(parseFormValues(values)).toEqual(input);
+        expect(values.carDaysPerWeek).toBe('0');
+        expect(values.downPayment).toBe('');
+    });
+});
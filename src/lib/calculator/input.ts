@@ -0,0 +1,74 @@
+import { DEFAULT_LOCALE } from './locale';
+import {
+    CALCULATOR_FIELDS,
+    CalculatorField,
+    CalculatorFormValues,
+    CalculatorInput,
+    CommuteLeg,
+    CommuteLegValues,
+} from './types';
+
+export const EMPTY_FORM_VALUES: CalculatorFormValues = {
+    ...Object.fromEntries(CALCULATOR_FIELDS.map(field => [field, ''])) as Record<CalculatorField, string>,
+    powertrain: 'petrol',
+    ownership: 'new',
+    taxProfile: 'none',
+    depreciationModel: 'straight-line',
+    vehicleSegment: 'hatchback',
+    commuteLegs: [],
+    locale: DEFAULT_LOCALE,
+};
+
+// Used when an optional field is left empty
+const FIELD_DEFAULTS: Partial<Record<CalculatorField, number>> = {
+    resaleYears: 1,
+    carDaysPerWeek: 5,
+    homeChargingShare: 100,
+    gridCarbonIntensity: 0.71,
+};
+
+export const createCommuteLeg = (id: string): CommuteLegValues => ({
+    id,
+    mode: 'metro',
+    fareType: 'per-trip',
+    cost: '',
+    distance: '',
+    tripsPerDay: '2',
+});
+
+const parseCommuteLeg = (leg: CommuteLegValues): CommuteLeg => ({
+    ...leg,
+    cost: parseFloat(leg.cost) || 0,
+    distance: parseFloat(leg.distance) || 0,
+    tripsPerDay: parseFloat(leg.tripsPerDay) || 0,
+});
+
+export const parseFormValues = (values: CalculatorFormValues): CalculatorInput => ({
+    ...Object.fromEntries(
+        CALCULATOR_FIELDS.map((field: CalculatorField) => {
+            const parsed = parseFloat(values[field]);
+            return [field, isNaN(parsed) ? FIELD_DEFAULTS[field] ?? 0 : parsed];
+        })
+    ) as Record<CalculatorField, number>,
+    powertrain: values.powertrain,
+    ownership: values.ownership,
+    taxProfile: values.taxProfile,
+    depreciationModel: values.depreciationModel,
+    vehicleSegment: values.vehicleSegment,
+    commuteLegs: values.commuteLegs.map(parseCommuteLeg),
+    locale: values.locale,
+});
+
+/** Form values that parse back into the given input; zeros are left empty unless the field defaults to something else */
+export const toFormValues = (input: CalculatorInput): CalculatorFormValues => ({
+    ...input,
+    ...Object.fromEntries(
+        CALCULATOR_FIELDS.map(field => [field, input[field] === 0 && !FIELD_DEFAULTS[field] ? '' : String(input[field])])
+    ) as Record<CalculatorField, string>,
+    commuteLegs: input.commuteLegs.map(leg => ({
+        ...leg,
+        cost: String(leg.cost),
+        distance: String(leg.distance),
+        tripsPerDay: String(leg.tripsPerDay),
+    })),
+});
@@ -0,0 +1,19 @@
+import { AmortizationRow } from './types';
+
+export const buildAmortizationSchedule = (principal: number, annualRate: number, months: number) => {
+    const monthlyRate = annualRate / 12 / 100;
+    const emi = monthlyRate === 0
+        ? principal / months
+        : (principal * monthlyRate * Math.pow(1 + monthlyRate, months)) / (Math.pow(1 + monthlyRate, months) - 1);
+
+    const schedule: AmortizationRow[] = [];
+    let balance = principal;
+    for (let month = 1; month <= months; month++) {
+        const interest = balance * monthlyRate;
+        const principalPaid = Math.min(emi - interest, balance);
+        balance = Math.max(balance - principalPaid, 0);
+        schedule.push({ month, emi, principal: principalPaid, interest, balance });
+    }
+
+    return { emi, schedule };
+};
@@ -0,0 +1,83 @@
+import { formatCompactNumber } from './format';
+import { CurrencyCode, LocaleSettings, NumberSystem, UnitSystem } from './types';
+
+export const CURRENCIES: Record<CurrencyCode, { label: string; symbol: string }> = {
+    INR: { label: 'Indian Rupee', symbol: '₹' },
+    GBP: { label: 'British Pound', symbol: '£' },
+    USD: { label: 'US Dollar', symbol: '$' },
+    EUR: { label: 'Euro', symbol: '€' },
+};
+
+export const NUMBER_SYSTEMS: Record<NumberSystem, { label: string; locale: string }> = {
+    indian: { label: 'Lakhs & crores', locale: 'en-IN' },
+    western: { label: 'Millions & billions', locale: 'en-US' },
+};
+
+interface UnitSystemInfo {
+    label: string;
+    distance: 'km' | 'mi';
+    efficiency: 'km/L' | 'MPG';
+    fuelVolume: 'L' | 'gal';
+    kmPerDistanceUnit: number;
+    /** Liters in the volume unit of the fuel efficiency figure */
+    litersPerEfficiencyVolume: number;
+    /** Liters in the volume unit the fuel is priced in */
+    litersPerPriceVolume: number;
+}
+
+const KM_PER_MILE = 1.609344;
+const LITERS_PER_IMPERIAL_GALLON = 4.54609;
+const LITERS_PER_US_GALLON = 3.785411784;
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitSystemInfo> = {
+    metric: {
+        label: 'Kilometers & liters',
+        distance: 'km',
+        efficiency: 'km/L',
+        fuelVolume: 'L',
+        kmPerDistanceUnit: 1,
+        litersPerEfficiencyVolume: 1,
+        litersPerPriceVolume: 1,
+    },
+    uk: {
+        label: 'Miles, MPG (UK) & liters',
+        distance: 'mi',
+        efficiency: 'MPG',
+        fuelVolume: 'L',
+        kmPerDistanceUnit: KM_PER_MILE,
+        litersPerEfficiencyVolume: LITERS_PER_IMPERIAL_GALLON,
+        litersPerPriceVolume: 1,
+    },
+    us: {
+        label: 'Miles, MPG (US) & gallons',
+        distance: 'mi',
+        efficiency: 'MPG',
+        fuelVolume: 'gal',
+        kmPerDistanceUnit: KM_PER_MILE,
+        litersPerEfficiencyVolume: LITERS_PER_US_GALLON,
+        litersPerPriceVolume: LITERS_PER_US_GALLON,
+    },
+};
+
+export const DEFAULT_LOCALE: LocaleSettings = {
+    currency: 'INR',
+    numberSystem: 'indian',
+    units: 'metric',
+};
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+    typeof value === 'string' && Object.hasOwn(CURRENCIES, value);
+
+export const isNumberSystem = (value: unknown): value is NumberSystem =>
+    typeof value === 'string' && Object.hasOwn(NUMBER_SYSTEMS, value);
+
+export const isUnitSystem = (value: unknown): value is UnitSystem =>
+    typeof value === 'string' && Object.hasOwn(UNIT_SYSTEMS, value);
+
+/** Compact amount with the currency symbol, e.g. ₹1.20 L or -$3.50 K */
+export const formatCurrency = (value: number, locale: LocaleSettings) =>
+    `${value < 0 ? '-' : ''}${CURRENCIES[locale.currency].symbol}${formatCompactNumber(Math.abs(value), locale.numberSystem)}`;
+
+/** Whole count grouped the way the number system groups digits */
+export const formatCount = (value: number, numberSystem: NumberSystem) =>
+    Math.round(value).toLocaleString(NUMBER_SYSTEMS[numberSystem].locale);
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCosts } from './calculate';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+import { buildMaintenanceSchedule, usesMaintenanceSchedule } from './maintenance';
+import { CalculatorFormValues } from './types';
+
+// 880 km a month
+const input = (overrides: Partial<CalculatorFormValues> = {}) => parseFormValues({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '400000',
+    resaleYears: '3',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    insuranceCosts: '24000',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+    ...overrides,
+});
+
+const months = (schedule: { month: number; item: string }[], item: string) =>
+    schedule.filter(event => event.item === item).map(event => event.month);
+
+describe('buildMaintenanceSchedule', () => {
+    it('is empty without any service or part costs', () => {
+        const values = input({ maintenanceCosts: '2000' });
+        expect(usesMaintenanceSchedule(values)).toBe(false);
+        expect(buildMaintenanceSchedule(values, 880, 36)).toEqual([]);
+    });
+
+    it('services by distance or time, whichever comes first', () => {
+        const byDistance = input({ serviceCost: '5000', serviceIntervalDistance: '5000', serviceIntervalMonths: '12' });
+        expect(months(buildMaintenanceSchedule(byDistance, 880, 24), 'Scheduled service')).toEqual([6, 12, 18, 24]);
+
+        const byTime = input({ serviceCost: '5000', serviceIntervalDistance: '100000', serviceIntervalMonths: '12' });
+        expect(months(buildMaintenanceSchedule(byTime, 880, 36), 'Scheduled service')).toEqual([12, 24, 36]);
+    });
+
+    it('replaces tyres and brakes by distance and the battery by age', () => {
+        const values = input({
+            tyreCost: '20000',
+            tyreLife: '20000',
+            brakeCost: '4000',
+            brakeLife: '10000',
+            batteryCost: '6000',
+            batteryLifeYears: '2',
+        });
+        const schedule = buildMaintenanceSchedule(values, 880, 36);
+
+        expect(months(schedule, 'Tyres')).toEqual([23]);
+        expect(months(schedule, 'Brake pads')).toEqual([12, 23, 35]);
+        expect(months(schedule, 'Battery')).toEqual([24]);
+    });
+
+    it('costs more once the car is out of warranty, counted from when it was new', () => {
+        const overrides = { serviceCost: '5000', serviceIntervalMonths: '12', warrantyYears: '2', postWarrantyIncrease: '50' };
+
+        const schedule = buildMaintenanceSchedule(input(overrides), 880, 36);
+        expect(schedule.map(event => [event.month, event.cost, event.underWarranty])).toEqual([
+            [12, 5000, true],
+            [24, 5000, true],
+            [36, 7500, false],
+        ]);
+
+        const used = buildMaintenanceSchedule(input({ ...overrides, ownership: 'used', carAgeYears: '3' }), 880, 36);
+        expect(used.every(event => !event.underWarranty && event.cost === 7500)).toBe(true);
+    });
+});
+
+describe('projected maintenance', () => {
+    it('adds up each year of the schedule', () => {
+        const result = calculateCosts(input({ serviceCost: '5000', serviceIntervalMonths: '6', tyreCost: '20000', tyreLife: '20000' }));
+        const yearly = result.projection.filter(point => point.year > 0).map(point => point.maintenanceCost);
+
+        expect(yearly).toEqual([10000, 30000, 10000]);
+    });
+});
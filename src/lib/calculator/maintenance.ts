@@ -0,0 +1,68 @@
+import { CalculatorInput, MaintenanceEvent } from './types';
+
+/** A schedule is used once any service or part has a cost; it replaces the flat monthly estimate */
+export const usesMaintenanceSchedule = (values: CalculatorInput) =>
+    values.serviceCost > 0 || values.tyreCost > 0 || values.brakeCost > 0 || values.batteryCost > 0;
+
+// How many multiples of the interval were passed between the two readings
+const replacementsDue = (interval: number, previous: number, current: number) =>
+    interval > 0 ? Math.floor(current / interval) - Math.floor(previous / interval) : 0;
+
+/**
+ * Lists the services and part replacements due over the given months of
+ * ownership, driving the same distance each month. Services fall due by
+ * distance or time, whichever comes first; tyres and brakes wear out by
+ * distance and the battery by age. Once the car is older than its warranty,
+ * each visit costs more, as wear found during services is no longer covered.
+ * A used car's warranty is counted from when it was new, but its parts are
+ * assumed to have been replaced when bought.
+ */
+export const buildMaintenanceSchedule = (
+    values: CalculatorInput,
+    monthlyDistance: number,
+    months: number
+): MaintenanceEvent[] => {
+    if (!usesMaintenanceSchedule(values)) return [];
+
+    const events: MaintenanceEvent[] = [];
+    const batteryMonths = Math.round(values.batteryLifeYears * 12);
+    let lastService = { month: 0, odometer: 0 };
+
+    for (let month = 1; month <= months; month++) {
+        const odometer = monthlyDistance * month;
+        const previous = monthlyDistance * (month - 1);
+        const underWarranty = values.carAgeYears + month / 12 <= values.warrantyYears;
+        const add = (item: string, cost: number, count = 1) => {
+            for (let i = 0; i < count; i++) {
+                events.push({
+                    month,
+                    odometer,
+                    item,
+                    cost: underWarranty ? cost : cost * (1 + values.postWarrantyIncrease / 100),
+                    underWarranty,
+                });
+            }
+        };
+
+        if (values.serviceCost > 0) {
+            const dueByDistance = values.serviceIntervalDistance > 0 &&
+                odometer - lastService.odometer >= values.serviceIntervalDistance;
+            const dueByTime = values.serviceIntervalMonths > 0 && month - lastService.month >= values.serviceIntervalMonths;
+            if (dueByDistance || dueByTime) {
+                add('Scheduled service', values.serviceCost);
+                lastService = { month, odometer };
+            }
+        }
+        if (values.tyreCost > 0) {
+            add('Tyres', values.tyreCost, replacementsDue(values.tyreLife, previous, odometer));
+        }
+        if (values.brakeCost > 0) {
+            add('Brake pads', values.brakeCost, replacementsDue(values.brakeLife, previous, odometer));
+        }
+        if (values.batteryCost > 0 && batteryMonths > 0 && month % batteryMonths === 0) {
+            add('Battery', values.batteryCost);
+        }
+    }
+
+    return events;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCosts } from './calculate';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+import { Distributions, createRng, runMonteCarlo, sampleTriangular } from './monte-carlo';
+
+const values = parseFormValues({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '400000',
+    resaleYears: '5',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    insuranceCosts: '24000',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+});
+
+const distributions: Distributions = {
+    fuelPrice: { min: 80, mode: 100, max: 140 },
+    resaleValue: { min: 250000, mode: 400000, max: 450000 },
+};
+
+describe('createRng', () => {
+    it('repeats the same sequence for the same seed', () => {
+        const draw = (seed: number) => {
+            const random = createRng(seed);
+            return Array.from({ length: 5 }, random);
+        };
+
+        expect(draw(42)).toEqual(draw(42));
+        expect(draw(42)).not.toEqual(draw(43));
+        draw(7).forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+    });
+});
+
+describe('sampleTriangular', () => {
+    it('stays within the range and returns the mode for a single point', () => {
+        const random = createRng(1);
+        const samples = Array.from({ length: 500 }, () => sampleTriangular(random, { min: 10, mode: 12, max: 20 }));
+
+        expect(Math.min(...samples)).toBeGreaterThanOrEqual(10);
+        expect(Math.max(...samples)).toBeLessThanOrEqual(20);
+        expect(sampleTriangular(random, { min: 5, mode: 5, max: 5 })).toBe(5);
+    });
+});
+
+describe('runMonteCarlo', () => {
+    it('gives the same percentiles for the same seed', () => {
+        const first = runMonteCarlo(values, distributions, { runs: 300, seed: 9 });
+        const second = runMonteCarlo(values, distributions, { runs: 300, seed: 9 });
+        const other = runMonteCarlo(values, distributions, { runs: 300, seed: 10 });
+
+        expect(second).toEqual(first);
+        expect(other.car).not.toEqual(first.car);
+    });
+
+    it('orders the percentiles and counts every run in the histogram', () => {
+        const result = runMonteCarlo(values, distributions, { runs: 300, seed: 3, bins: 10 });
+
+        [result.car, result.commute].forEach(({ p10, p50, p90 }) => {
+            expect(p10).toBeLessThanOrEqual(p50);
+            expect(p50).toBeLessThanOrEqual(p90);
+        });
+        expect(result.car.p10).toBeLessThan(result.car.p90);
+        expect(result.histogram).toHaveLength(10);
+        expect(result.histogram.reduce((sum, bin) => sum + bin.car, 0)).toBe(300);
+        expect(result.histogram.reduce((sum, bin) => sum + bin.commute, 0)).toBe(300);
+        expect(result.probabilityBuyWins).toBeGreaterThanOrEqual(0);
+        expect(result.probabilityBuyWins).toBeLessThanOrEqual(1);
+    });
+
+    it('matches the deterministic calculation when nothing is uncertain', () => {
+        const result = runMonteCarlo(values, {}, { runs: 20 });
+        const final = calculateCosts(values).projection.at(-1)!;
+
+        expect(result.car.p10).toBeCloseTo(final.cumulativeCar);
+        expect(result.car.p90).toBeCloseTo(final.cumulativeCar);
+        expect(result.probabilityBuyWins).toBe(final.cumulativeCar < final.cumulativeCommute ? 1 : 0);
+    });
+});
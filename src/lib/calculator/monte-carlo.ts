@@ -0,0 +1,132 @@
+import { calculateCosts } from './calculate';
+import { CalculatorField, CalculatorInput } from './types';
+
+/** Three-point estimate sampled as a triangular distribution */
+export interface TriangularDistribution {
+    min: number;
+    mode: number;
+    max: number;
+}
+
+export type Distributions = Partial<Record<CalculatorField, TriangularDistribution>>;
+
+/** Inputs that can be given a distribution, with the labels used in the UI */
+export const MONTE_CARLO_INPUTS: { field: CalculatorField; label: string }[] = [
+    { field: 'fuelPrice', label: 'Fuel Price' },
+    { field: 'fuelInflation', label: 'Fuel Price Growth (%/yr)' },
+    { field: 'maintenanceCosts', label: 'Maintenance & Repairs' },
+    { field: 'resaleValue', label: 'Resale Value' },
+    { field: 'transitInflation', label: 'Fare Growth (%/yr)' },
+];
+
+/** Seedable PRNG (mulberry32) so a simulation can be reproduced exactly */
+export const createRng = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const sampleTriangular = (random: () => number, { min, mode, max }: TriangularDistribution) => {
+    if (max <= min) return mode;
+    const u = random();
+    const split = (mode - min) / (max - min);
+    return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+};
+
+const percentile = (sorted: number[], p: number) => {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export interface Percentiles {
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface HistogramBin {
+    from: number;
+    to: number;
+    car: number;
+    commute: number;
+}
+
+export interface MonteCarloResult {
+    runs: number;
+    /** Share of runs where owning the car costs less over the ownership period */
+    probabilityBuyWins: number;
+    car: Percentiles;
+    commute: Percentiles;
+    histogram: HistogramBin[];
+}
+
+/**
+ * Runs the calculation many times with the given inputs drawn from their
+ * distributions, comparing total cost of ownership over the ownership period
+ * (the final point of the yearly projection) for each option.
+ */
+export const runMonteCarlo = (
+    values: CalculatorInput,
+    distributions: Distributions,
+    { runs = 5000, seed = 1, bins = 20 }: { runs?: number; seed?: number; bins?: number } = {}
+): MonteCarloResult => {
+    const random = createRng(seed);
+    const carTotals: number[] = [];
+    const commuteTotals: number[] = [];
+    let buyWins = 0;
+
+    for (let run = 0; run < runs; run++) {
+        const sampled = { ...values };
+        Object.entries(distributions).forEach(([field, distribution]) => {
+            if (distribution) {
+                sampled[field as CalculatorField] = Math.max(sampleTriangular(random, distribution), 0);
+            }
+        });
+
+        const { projection } = calculateCosts(sampled);
+        const final = projection[projection.length - 1];
+        carTotals.push(final.cumulativeCar);
+        commuteTotals.push(final.cumulativeCommute);
+        if (final.cumulativeCar < final.cumulativeCommute) buyWins++;
+    }
+
+    carTotals.sort((a, b) => a - b);
+    commuteTotals.sort((a, b) => a - b);
+
+    // Shared bins so both options can be drawn on the same axis
+    const low = Math.min(carTotals[0], commuteTotals[0]);
+    const high = Math.max(carTotals[runs - 1], commuteTotals[runs - 1]);
+    const width = (high - low) / bins || 1;
+    const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+        from: low + i * width,
+        to: low + (i + 1) * width,
+        car: 0,
+        commute: 0,
+    }));
+    const binIndex = (value: number) => Math.min(Math.floor((value - low) / width), bins - 1);
+    carTotals.forEach(value => histogram[binIndex(value)].car++);
+    commuteTotals.forEach(value => histogram[binIndex(value)].commute++);
+
+    const summarize = (sorted: number[]): Percentiles => ({
+        p10: percentile(sorted, 0.1),
+        p50: percentile(sorted, 0.5),
+        p90: percentile(sorted, 0.9),
+    });
+
+    return {
+        runs,
+        probabilityBuyWins: buyWins / runs,
+        car: summarize(carTotals),
+        commute: summarize(commuteTotals),
+        histogram,
+    };
+};
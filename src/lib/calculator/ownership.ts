@@ -0,0 +1,95 @@
+import { CalculatorField, CalculatorInput, OwnershipModel } from './types';
+
+interface OwnershipInfo {
+    label: string;
+    /** Completes "... costs about" in plain-language summaries, e.g. "Owning a used petrol car" */
+    describe: (powertrain: string) => string;
+}
+
+export const OWNERSHIP_MODELS: Record<OwnershipModel, OwnershipInfo> = {
+    new: { label: 'Buy New', describe: powertrain => `Owning a new ${powertrain} car` },
+    used: { label: 'Buy Used', describe: powertrain => `Owning a used ${powertrain} car` },
+    subscription: { label: 'Subscription / Lease', describe: powertrain => `Subscribing to a ${powertrain} car` },
+    'two-wheeler': { label: 'Two-Wheeler', describe: powertrain => `Owning a ${powertrain} two-wheeler` },
+    'car-sharing': { label: 'Car-Sharing / Rental', describe: powertrain => `Renting a shared ${powertrain} car` },
+};
+
+export const isOwnershipModel = (value: unknown): value is OwnershipModel =>
+    typeof value === 'string' && Object.hasOwn(OWNERSHIP_MODELS, value);
+
+/** Costs of buying a vehicle outright, which subscriptions and car-sharing replace with fees */
+const PURCHASE_FIELDS: CalculatorField[] = [
+    'carPrice',
+    'downPayment',
+    'loanTenure',
+    'interestRate',
+    'maintenanceCosts',
+    'maintenancePerDistance',
+    'serviceIntervalDistance',
+    'serviceIntervalMonths',
+    'serviceCost',
+    'tyreLife',
+    'tyreCost',
+    'brakeLife',
+    'brakeCost',
+    'batteryLifeYears',
+    'batteryCost',
+    'warrantyYears',
+    'postWarrantyIncrease',
+    'insuranceCosts',
+    'resaleValue',
+    'depreciationPerDistance',
+    'depreciationRate',
+];
+const USED_FIELDS: CalculatorField[] = ['carAgeYears', 'repairCostPerYearOfAge'];
+const SUBSCRIPTION_FIELDS: CalculatorField[] = ['subscriptionFee', 'subscriptionUpfront'];
+const SHARING_FIELDS: CalculatorField[] = ['sharingHourlyRate', 'sharingHoursPerMonth', 'sharingDistanceRate'];
+
+const MODEL_FIELDS: Record<OwnershipModel, CalculatorField[]> = {
+    new: PURCHASE_FIELDS,
+    used: [...PURCHASE_FIELDS, ...USED_FIELDS],
+    subscription: SUBSCRIPTION_FIELDS,
+    'two-wheeler': PURCHASE_FIELDS,
+    'car-sharing': SHARING_FIELDS,
+};
+
+const OWNERSHIP_FIELDS = [...PURCHASE_FIELDS, ...USED_FIELDS, ...SUBSCRIPTION_FIELDS, ...SHARING_FIELDS];
+
+export const isFieldUsedByOwnership = (field: CalculatorField, ownership: OwnershipModel) =>
+    !OWNERSHIP_FIELDS.includes(field) || MODEL_FIELDS[ownership].includes(field);
+
+export const getOwnershipRequiredFields = (ownership: OwnershipModel): CalculatorField[] => {
+    switch (ownership) {
+        case 'used':
+            return ['carPrice', 'carAgeYears'];
+        case 'subscription':
+            return ['subscriptionFee'];
+        case 'car-sharing':
+            return [];
+        default:
+            return ['carPrice'];
+    }
+};
+
+/**
+ * Zeroes the inputs the ownership model doesn't use, so values typed in
+ * before switching models can't leak into the result. A subscription has no
+ * purchase, loan or resale, and its fee covers insurance and maintenance.
+ */
+export const withOwnershipFields = (values: CalculatorInput): CalculatorInput => ({
+    ...values,
+    ...Object.fromEntries(
+        OWNERSHIP_FIELDS.filter(field => !isFieldUsedByOwnership(field, values.ownership)).map(field => [field, 0])
+    ),
+});
+
+/**
+ * Expected monthly repairs of a used car once it has been owned for the given
+ * years. The yearly repair bill grows with the car's age.
+ */
+export const monthlyRepairCost = (values: CalculatorInput, yearsOwned: number) =>
+    (values.repairCostPerYearOfAge * (values.carAgeYears + yearsOwned)) / 12;
+
+/** Pay-per-use fees for a shared or rented car over the month's driving */
+export const monthlySharingCost = (values: CalculatorInput, monthlyDistance: number) =>
+    values.sharingHourlyRate * values.sharingHoursPerMonth + values.sharingDistanceRate * monthlyDistance;
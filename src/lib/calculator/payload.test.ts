@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FORM_VALUES } from './input';
+import { parseScenarioPayload } from './payload';
+
+describe('parseScenarioPayload', () => {
+    it('keeps numbers and numeric strings as form values', () => {
+        const { values, errors } = parseScenarioPayload({ carPrice: 1000000, fuelPrice: ' 102.5 ' });
+        expect(errors).toEqual({});
+        expect(values.carPrice).toBe('1000000');
+        expect(values.fuelPrice).toBe('102.5');
+    });
+
+    it('rejects non-finite numbers as field errors', () => {
+        const { errors } = parseScenarioPayload({
+            carPrice: 'Infinity',
+            fuelPrice: '-Infinity',
+            distanceToWork: JSON.parse('1e400'),
+            workingDaysPerMonth: 'NaN',
+        });
+        expect(errors).toEqual({
+            carPrice: 'Value must be a number',
+            fuelPrice: 'Value must be a number',
+            distanceToWork: 'Value must be a number',
+            workingDaysPerMonth: 'Value must be a number',
+        });
+    });
+
+    it('rejects non-finite commute leg values', () => {
+        const { errors } = parseScenarioPayload({ commuteLegs: [{ mode: 'metro', cost: 'Infinity' }] });
+        expect(errors['commuteLegs.0.cost']).toBe('Value must be a number');
+    });
+
+    it('rejects inherited object keys as choices', () => {
+        const { values, errors } = parseScenarioPayload({
+            powertrain: 'constructor',
+            ownership: 'toString',
+            taxProfile: '__proto__',
+            depreciationModel: 'hasOwnProperty',
+            vehicleSegment: 'valueOf',
+            locale: { currency: 'toString', numberSystem: 'constructor', units: 'isPrototypeOf' },
+            commuteLegs: [{ mode: 'toString', cost: '20' }],
+        });
+        expect(Object.keys(errors).sort()).toEqual([
+            'commuteLegs.0.mode',
+            'depreciationModel',
+            'locale.currency',
+            'locale.numberSystem',
+            'locale.units',
+            'ownership',
+            'powertrain',
+            'taxProfile',
+            'vehicleSegment',
+        ]);
+        expect(values.ownership).toBe(EMPTY_FORM_VALUES.ownership);
+        expect(values.powertrain).toBe(EMPTY_FORM_VALUES.powertrain);
+    });
+});
@@ -0,0 +1,195 @@
+import { COMMUTE_MODE_LABELS } from './commute';
+import { DEPRECIATION_MODELS, VEHICLE_SEGMENTS, isDepreciationModel, isVehicleSegment } from './depreciation';
+import { EMPTY_FORM_VALUES } from './input';
+import {
+    CURRENCIES,
+    DEFAULT_LOCALE,
+    NUMBER_SYSTEMS,
+    UNIT_SYSTEMS,
+    isCurrencyCode,
+    isNumberSystem,
+    isUnitSystem,
+} from './locale';
+import { OWNERSHIP_MODELS, isOwnershipModel } from './ownership';
+import { POWERTRAINS, isPowertrain } from './powertrain';
+import { TAX_PROFILES, isTaxProfile } from './tax';
+import {
+    CALCULATOR_FIELDS,
+    COMMUTE_LEG_FIELDS,
+    CalculatorField,
+    CalculatorFormValues,
+    CommuteLegValues,
+    CommuteMode,
+    FareType,
+    LocaleSettings,
+} from './types';
+
+export type PayloadErrors = Record<string, string>;
+
+const FARE_TYPES: FareType[] = ['per-trip', 'monthly-pass'];
+
+const isCalculatorField = (key: string): key is CalculatorField =>
+    (CALCULATOR_FIELDS as readonly string[]).includes(key);
+
+const isCommuteMode = (value: unknown): value is CommuteMode =>
+    typeof value === 'string' && Object.hasOwn(COMMUTE_MODE_LABELS, value);
+
+const isFareType = (value: unknown): value is FareType =>
+    typeof value === 'string' && (FARE_TYPES as string[]).includes(value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Returns the value as a numeric string, '' when absent, or null when it is not a number */
+const toNumericString = (value: unknown): string | null => {
+    if (value === null || value === undefined || value === '') return '';
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    // Infinity, and numbers too large to hold, would come back from the engine as null
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return value.trim();
+    return null;
+};
+
+const parseCommuteLegs = (payload: unknown, errors: PayloadErrors): CommuteLegValues[] => {
+    if (!Array.isArray(payload)) {
+        errors.commuteLegs = 'Commute legs must be an array';
+        return [];
+    }
+
+    return payload.map((leg, index) => {
+        const values: CommuteLegValues = {
+            id: String(index + 1),
+            mode: 'other',
+            fareType: 'per-trip',
+            cost: '',
+            distance: '',
+            tripsPerDay: '',
+        };
+        if (!isPlainObject(leg)) {
+            errors[`commuteLegs.${index}`] = 'Commute leg must be a JSON object';
+            return values;
+        }
+
+        if (isCommuteMode(leg.mode)) {
+            values.mode = leg.mode;
+        } else {
+            errors[`commuteLegs.${index}.mode`] = `Mode must be one of ${Object.keys(COMMUTE_MODE_LABELS).join(', ')}`;
+        }
+        if (leg.fareType !== undefined) {
+            if (isFareType(leg.fareType)) {
+                values.fareType = leg.fareType;
+            } else {
+                errors[`commuteLegs.${index}.fareType`] = `Fare type must be one of ${FARE_TYPES.join(', ')}`;
+            }
+        }
+        COMMUTE_LEG_FIELDS.forEach(field => {
+            const value = toNumericString(leg[field]);
+            if (value === null) {
+                errors[`commuteLegs.${index}.${field}`] = 'Value must be a number';
+            } else {
+                values[field] = value;
+            }
+        });
+        return values;
+    });
+};
+
+const parseLocale = (payload: unknown, errors: PayloadErrors): LocaleSettings => {
+    const locale = { ...DEFAULT_LOCALE };
+    if (!isPlainObject(payload)) {
+        errors.locale = 'Locale must be a JSON object';
+        return locale;
+    }
+
+    Object.entries(payload).forEach(([key, value]) => {
+        if (key === 'currency') {
+            if (isCurrencyCode(value)) locale.currency = value;
+            else errors['locale.currency'] = `Currency must be one of ${Object.keys(CURRENCIES).join(', ')}`;
+        } else if (key === 'numberSystem') {
+            if (isNumberSystem(value)) locale.numberSystem = value;
+            else errors['locale.numberSystem'] = `Number system must be one of ${Object.keys(NUMBER_SYSTEMS).join(', ')}`;
+        } else if (key === 'units') {
+            if (isUnitSystem(value)) locale.units = value;
+            else errors['locale.units'] = `Units must be one of ${Object.keys(UNIT_SYSTEMS).join(', ')}`;
+        } else {
+            errors[`locale.${key}`] = 'Unknown field';
+        }
+    });
+    return locale;
+};
+
+/**
+ * Converts a JSON scenario (numbers or numeric strings keyed by form field)
+ * into form values so it can go through the same validation as the UI.
+ */
+export const parseScenarioPayload = (payload: unknown): { values: CalculatorFormValues; errors: PayloadErrors } => {
+    const values: CalculatorFormValues = { ...EMPTY_FORM_VALUES };
+    const errors: PayloadErrors = {};
+
+    if (!isPlainObject(payload)) {
+        return { values, errors: { _: 'Scenario must be a JSON object' } };
+    }
+
+    Object.entries(payload).forEach(([key, value]) => {
+        if (key === 'powertrain') {
+            if (isPowertrain(value)) {
+                values.powertrain = value;
+            } else {
+                errors.powertrain = `Powertrain must be one of ${Object.keys(POWERTRAINS).join(', ')}`;
+            }
+            return;
+        }
+        if (key === 'ownership') {
+            if (isOwnershipModel(value)) {
+                values.ownership = value;
+            } else {
+                errors.ownership = `Ownership must be one of ${Object.keys(OWNERSHIP_MODELS).join(', ')}`;
+            }
+            return;
+        }
+        if (key === 'taxProfile') {
+            if (isTaxProfile(value)) {
+                values.taxProfile = value;
+            } else {
+                errors.taxProfile = `Tax profile must be one of ${Object.keys(TAX_PROFILES).join(', ')}`;
+            }
+            return;
+        }
+        if (key === 'depreciationModel') {
+            if (isDepreciationModel(value)) {
+                values.depreciationModel = value;
+            } else {
+                errors.depreciationModel = `Depreciation model must be one of ${Object.keys(DEPRECIATION_MODELS).join(', ')}`;
+            }
+            return;
+        }
+        if (key === 'vehicleSegment') {
+            if (isVehicleSegment(value)) {
+                values.vehicleSegment = value;
+            } else {
+                errors.vehicleSegment = `Vehicle segment must be one of ${Object.keys(VEHICLE_SEGMENTS).join(', ')}`;
+            }
+            return;
+        }
+        if (key === 'commuteLegs') {
+            values.commuteLegs = parseCommuteLegs(value, errors);
+            return;
+        }
+        if (key === 'locale') {
+            values.locale = parseLocale(value, errors);
+            return;
+        }
+        if (!isCalculatorField(key)) {
+            errors[key] = 'Unknown field';
+            return;
+        }
+
+        const numeric = toNumericString(value);
+        if (numeric === null) {
+            errors[key] = 'Value must be a number';
+        } else {
+            values[key] = numeric;
+        }
+    });
+
+    return { values, errors };
+};
@@ -0,0 +1,98 @@
+import { getDepreciationRequiredFields, isFieldUsedByDepreciationModel } from './depreciation';
+import { UNIT_SYSTEMS } from './locale';
+import { getOwnershipRequiredFields, isFieldUsedByOwnership } from './ownership';
+import { getTaxRequiredFields, isFieldUsedByTaxProfile } from './tax';
+import { CalculatorField, CalculatorInput, FieldContext, Powertrain, UnitSystem } from './types';
+
+export type EnergyUnit = 'L' | 'gal' | 'kg' | 'kWh';
+
+interface PowertrainInfo {
+    label: string;
+    energyLabel: string;
+    energyUnit: EnergyUnit;
+}
+
+export const POWERTRAINS: Record<Powertrain, PowertrainInfo> = {
+    petrol: { label: 'Petrol', energyLabel: 'Fuel', energyUnit: 'L' },
+    diesel: { label: 'Diesel', energyLabel: 'Fuel', energyUnit: 'L' },
+    cng: { label: 'CNG', energyLabel: 'CNG', energyUnit: 'kg' },
+    ev: { label: 'Electric', energyLabel: 'Electricity', energyUnit: 'kWh' },
+    hybrid: { label: 'Hybrid', energyLabel: 'Fuel & Charging', energyUnit: 'L' },
+};
+
+/** Unit the monthly energy use is reported in: the volume fuel is priced in, kg of CNG or kWh */
+export const getEnergyUnit = (powertrain: Powertrain, units: UnitSystem): EnergyUnit =>
+    POWERTRAINS[powertrain].energyUnit === 'L' ? UNIT_SYSTEMS[units].fuelVolume : POWERTRAINS[powertrain].energyUnit;
+
+export const isPowertrain = (value: unknown): value is Powertrain =>
+    typeof value === 'string' && Object.hasOwn(POWERTRAINS, value);
+
+/** Fields that only apply to some powertrains */
+export const EV_FIELDS: CalculatorField[] = [
+    'evConsumption',
+    'homeChargingTariff',
+    'publicChargingTariff',
+    'homeChargingShare',
+    'chargerInstallCost',
+    'gridCarbonIntensity',
+];
+export const COMBUSTION_FIELDS: CalculatorField[] = ['fuelEfficiency', 'fuelPrice'];
+/** A hybrid burns fuel, and a plug-in one also drives part of the way on charged electricity */
+export const HYBRID_FIELDS: CalculatorField[] = ['electricShare'];
+
+const isFieldUsedByPowertrain = (field: CalculatorField, powertrain: Powertrain) => {
+    if (powertrain === 'hybrid') return true;
+    if (HYBRID_FIELDS.includes(field)) return false;
+    return powertrain === 'ev' ? !COMBUSTION_FIELDS.includes(field) : !EV_FIELDS.includes(field);
+};
+
+export const isFieldApplicable = (field: CalculatorField, { powertrain, ownership, taxProfile, depreciationModel }: FieldContext) =>
+    isFieldUsedByPowertrain(field, powertrain) &&
+    isFieldUsedByOwnership(field, ownership) &&
+    isFieldUsedByTaxProfile(field, taxProfile) &&
+    isFieldUsedByDepreciationModel(field, depreciationModel);
+
+export const getRequiredFields = ({ powertrain, ownership, taxProfile, depreciationModel }: FieldContext): CalculatorField[] => [
+    ...getOwnershipRequiredFields(ownership),
+    ...(isFieldUsedByOwnership('carPrice', ownership) ? getDepreciationRequiredFields(depreciationModel) : []),
+    ...(powertrain === 'ev' ? ['evConsumption', 'homeChargingTariff'] as CalculatorField[] : COMBUSTION_FIELDS),
+    'workingDaysPerMonth',
+    ...getTaxRequiredFields(taxProfile),
+];
+
+/** kWh charged to cover the given distance on battery power, and what it costs */
+const calculateCharging = (values: CalculatorInput, distance: number) => {
+    const electricityUsed = (distance * values.evConsumption) / 100;
+    const homeShare = Math.min(Math.max(values.homeChargingShare, 0), 100) / 100;
+    const tariff = homeShare * values.homeChargingTariff + (1 - homeShare) * values.publicChargingTariff;
+    return { electricityUsed, cost: electricityUsed * tariff };
+};
+
+/**
+ * Monthly energy consumed for the given distance and what it costs.
+ * `energyUsed` is in the powertrain's own unit; `electricityUsed` is what
+ * was charged from the grid, all of it for an EV and the battery share of a
+ * plug-in hybrid. A self-charging hybrid's saving is in its fuel efficiency.
+ */
+export const calculateEnergy = (values: CalculatorInput, monthlyDistance: number) => {
+    if (values.powertrain === 'ev') {
+        const { electricityUsed, cost } = calculateCharging(values, monthlyDistance);
+        return { energyUsed: electricityUsed, electricityUsed, cost };
+    }
+
+    const electricShare = values.powertrain === 'hybrid' ? Math.min(Math.max(values.electricShare, 0), 100) / 100 : 0;
+    const charging = calculateCharging(values, monthlyDistance * electricShare);
+    const fuelDistance = monthlyDistance * (1 - electricShare);
+
+    // CNG is measured in kg. Liquid fuels are converted from the volume the
+    // efficiency is quoted in to the one the fuel is priced in, since UK
+    // drivers quote imperial MPG but buy fuel by the liter.
+    const units = UNIT_SYSTEMS[values.locale.units];
+    const volumeRatio = values.powertrain === 'cng' ? 1 : units.litersPerEfficiencyVolume / units.litersPerPriceVolume;
+    const energyUsed = values.fuelEfficiency > 0 ? (fuelDistance / values.fuelEfficiency) * volumeRatio : 0;
+    return {
+        energyUsed,
+        electricityUsed: charging.electricityUsed,
+        cost: energyUsed * values.fuelPrice + charging.cost,
+    };
+};
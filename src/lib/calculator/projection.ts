@@ -0,0 +1,103 @@
+import { monthlyRepairCost } from './ownership';
+import { AmortizationRow, CalculatorInput, MaintenanceEvent, ProjectionPoint } from './types';
+
+interface ProjectionOptions {
+    monthlyFuelCosts: number;
+    monthlyMaintenance: number;
+    /** Paid in the month each event falls due instead of the monthly average, if there is a schedule */
+    maintenanceSchedule: MaintenanceEvent[] | null;
+    monthlyFixedCarCosts: number;
+    /** Public transport on the days a car owner doesn't drive */
+    monthlyCarTransitCosts: number;
+    /** Subscription and car-sharing fees, fixed for the term */
+    monthlyFees: number;
+    /** Income tax saved, a flat estimate at today's costs */
+    monthlyTaxSaving: number;
+    monthlyCommuteCosts: number;
+    /** Resale value after mileage, credited on sale */
+    resaleValue: number;
+    upfrontPayment: number;
+    emi: number;
+    schedule: AmortizationRow[];
+}
+
+const growth = (ratePercent: number, yearIndex: number) => Math.pow(1 + ratePercent / 100, yearIndex);
+
+const findBreakEven = (previous: { year: number; diff: number }, current: { year: number; diff: number }) => {
+    // Linear interpolation between the two points where car minus commute changes sign
+    if (previous.diff === 0 || Math.sign(previous.diff) === Math.sign(current.diff)) return null;
+    return previous.year + (current.year - previous.year) * (previous.diff / (previous.diff - current.diff));
+};
+
+/**
+ * Projects cumulative cash outlay for both options month by month. The car
+ * starts with the upfront payment, which also forgoes investment returns,
+ * and is credited with its resale value (less any loan still owed) on sale.
+ */
+export const projectCosts = (values: CalculatorInput, options: ProjectionOptions) => {
+    const { monthlyFuelCosts, monthlyMaintenance, maintenanceSchedule, monthlyFixedCarCosts, monthlyCarTransitCosts, monthlyFees } = options;
+    const { monthlyTaxSaving, monthlyCommuteCosts, resaleValue, upfrontPayment, emi, schedule } = options;
+    const monthlyReturn = values.investmentReturn / 12 / 100;
+    const projectionMonths = Math.max(Math.round(values.resaleYears * 12), 1);
+
+    let cumulativeCar = upfrontPayment;
+    let cumulativeCommute = 0;
+    let yearCar = 0;
+    let yearCommute = 0;
+    let yearMaintenance = 0;
+    let breakEvenYear: number | null = null;
+    let previous = { year: 0, diff: cumulativeCar - cumulativeCommute };
+    const projection: ProjectionPoint[] = [
+        { year: 0, carCost: upfrontPayment, maintenanceCost: 0, commuteCost: 0, cumulativeCar, cumulativeCommute }
+    ];
+
+    for (let month = 1; month <= projectionMonths; month++) {
+        const yearIndex = Math.floor((month - 1) / 12);
+        const scheduledMaintenance = maintenanceSchedule
+            ? maintenanceSchedule.filter(event => event.month === month).reduce((sum, event) => sum + event.cost, 0)
+            : monthlyMaintenance;
+        const maintenanceCost =
+            (scheduledMaintenance + monthlyRepairCost(values, yearIndex + 0.5)) * growth(values.maintenanceInflation, yearIndex);
+        let carCost =
+            monthlyFuelCosts * growth(values.fuelInflation, yearIndex) +
+            maintenanceCost +
+            (values.insuranceCosts / 12) * Math.pow(1 - values.insuranceDecline / 100, yearIndex) +
+            monthlyFixedCarCosts +
+            monthlyFees -
+            monthlyTaxSaving +
+            monthlyCarTransitCosts * growth(values.transitInflation, yearIndex) +
+            (month <= schedule.length ? emi : 0) +
+            upfrontPayment * Math.pow(1 + monthlyReturn, month - 1) * monthlyReturn;
+        if (month === projectionMonths) {
+            const outstandingLoan = month <= schedule.length ? schedule[month - 1].balance : 0;
+            carCost += outstandingLoan - resaleValue;
+        }
+        const commuteCost = monthlyCommuteCosts * growth(values.transitInflation, yearIndex);
+
+        cumulativeCar += carCost;
+        cumulativeCommute += commuteCost;
+        yearCar += carCost;
+        yearMaintenance += maintenanceCost;
+        yearCommute += commuteCost;
+
+        const current = { year: month / 12, diff: cumulativeCar - cumulativeCommute };
+        breakEvenYear = breakEvenYear ?? findBreakEven(previous, current);
+        previous = current;
+
+        if (month % 12 === 0 || month === projectionMonths) {
+            projection.push({
+                year: month / 12,
+                carCost: yearCar,
+                maintenanceCost: yearMaintenance,
+                commuteCost: yearCommute,
+                cumulativeCar,
+                cumulativeCommute,
+            });
+            yearCar = 0;
+            yearMaintenance = 0;
+            yearCommute = 0;
+        }
+    }
+
+    return { projection, breakEvenYear };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCosts } from './calculate';
+import { EMPTY_FORM_VALUES, parseFormValues } from './input';
+import { getVariableInputs, runHeatmap, runTornado } from './sensitivity';
+import { CalculatorFormValues } from './types';
+
+const input = (overrides: Partial<CalculatorFormValues> = {}) => parseFormValues({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    resaleValue: '400000',
+    resaleYears: '5',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    maintenanceCosts: '2000',
+    insuranceCosts: '24000',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    publicTransportCosts: '3000',
+    ...overrides,
+});
+
+const fields = (values = input()) => getVariableInputs(values).map(({ field }) => field);
+
+describe('getVariableInputs', () => {
+    it('leaves out empty inputs and ones the calculation ignores', () => {
+        expect(fields()).toContain('fuelPrice');
+        expect(fields()).not.toContain('interestRate');
+        expect(fields(input({ powertrain: 'ev', evConsumption: '15', homeChargingTariff: '8' }))).not.toContain('fuelPrice');
+        expect(fields(input({ depreciationModel: 'declining-balance', depreciationRate: '15' }))).not.toContain('resaleValue');
+    });
+
+    it('leaves out the flat maintenance estimate once a service schedule replaces it', () => {
+        expect(fields()).toContain('maintenanceCosts');
+        expect(fields(input({ serviceCost: '5000', serviceIntervalDistance: '10000' }))).not.toContain('maintenanceCosts');
+    });
+});
+
+describe('runTornado', () => {
+    it('varies each input both ways around the baseline, widest swing first', () => {
+        const values = input();
+        const { baseline, bars } = runTornado(values, 20);
+        const swing = (bar: typeof bars[number]) => Math.abs(bar.high - bar.low);
+
+        expect(baseline).toBeCloseTo(calculateCosts(values).yearlySavings);
+        expect(bars.map(bar => bar.field).sort()).toEqual(fields(values).sort());
+        bars.slice(1).forEach((bar, index) => expect(swing(bar)).toBeLessThanOrEqual(swing(bars[index])));
+
+        // Dearer fuel makes the car worse, so savings from buying fall
+        const fuel = bars.find(bar => bar.field === 'fuelPrice')!;
+        expect(fuel.high).toBeLessThan(baseline);
+        expect(fuel.low).toBeGreaterThan(baseline);
+    });
+});
+
+describe('runHeatmap', () => {
+    it('covers a steps × steps grid centred on the current values', () => {
+        const values = input();
+        const cells = runHeatmap(values, 'distanceToWork', 'fuelPrice', 20, 5);
+
+        expect(cells).toHaveLength(25);
+        expect(cells[12]).toMatchObject({ x: 20, y: 100 });
+        expect(cells[12].yearlySavings).toBeCloseTo(calculateCosts(values).yearlySavings);
+        expect(cells[0]).toMatchObject({ x: 16, y: 80 });
+        expect(cells[24].x).toBeCloseTo(24);
+        expect(cells[24].y).toBeCloseTo(120);
+    });
+
+    it('keeps varied inputs within their valid range', () => {
+        const cells = runHeatmap(input(), 'workingDaysPerMonth', 'fuelPrice', 50, 3);
+        expect(Math.max(...cells.map(cell => cell.x))).toBe(31);
+    });
+});
@@ -0,0 +1,104 @@
+import { calculateCosts } from './calculate';
+import { usesMaintenanceSchedule } from './maintenance';
+import { isFieldApplicable } from './powertrain';
+import { CalculatorField, CalculatorInput } from './types';
+
+/** Inputs worth varying, with the labels used in charts */
+export const SENSITIVITY_INPUTS: { field: CalculatorField; label: string }[] = [
+    { field: 'carPrice', label: 'Car Price' },
+    { field: 'fuelEfficiency', label: 'Fuel Efficiency' },
+    { field: 'fuelPrice', label: 'Fuel Price' },
+    { field: 'evConsumption', label: 'Energy Consumption' },
+    { field: 'homeChargingTariff', label: 'Charging Tariff' },
+    { field: 'interestRate', label: 'Loan Interest Rate' },
+    { field: 'distanceToWork', label: 'Distance to Work' },
+    { field: 'workingDaysPerMonth', label: 'Working Days' },
+    { field: 'maintenanceCosts', label: 'Maintenance' },
+    { field: 'subscriptionFee', label: 'Subscription Fee' },
+    { field: 'sharingHoursPerMonth', label: 'Car-Sharing Hours' },
+    { field: 'insuranceCosts', label: 'Insurance' },
+    { field: 'parkingCosts', label: 'Parking' },
+    { field: 'resaleValue', label: 'Resale Value' },
+    { field: 'resaleYears', label: 'Years until Resale' },
+    { field: 'publicTransportCosts', label: 'Public Transport Cost' },
+];
+
+/**
+ * The sensitivity inputs that can be varied for these values: ones with a
+ * value to scale, that the calculation uses. A service schedule replaces the
+ * flat maintenance estimate, so that is left out once one is entered.
+ */
+export const getVariableInputs = (values: CalculatorInput) =>
+    SENSITIVITY_INPUTS.filter(({ field }) =>
+        values[field] !== 0 &&
+        isFieldApplicable(field, values) &&
+        !(field === 'maintenanceCosts' && usesMaintenanceSchedule(values))
+    );
+
+// Upper bounds that varied inputs must stay within to remain valid
+export const FIELD_MAXIMUMS: Partial<Record<CalculatorField, number>> = {
+    workingDaysPerMonth: 31,
+    sharingHoursPerMonth: 744,
+    interestRate: 50,
+};
+
+const adjust = (values: CalculatorInput, field: CalculatorField, value: number): CalculatorInput => ({
+    ...values,
+    [field]: Math.min(Math.max(value, 0), FIELD_MAXIMUMS[field] ?? Infinity),
+});
+
+export interface TornadoBar {
+    field: CalculatorField;
+    label: string;
+    /** Yearly savings with the input lowered and raised by the range */
+    low: number;
+    high: number;
+}
+
+/**
+ * Varies each input that has a value by ±rangePercent, one at a time, and
+ * records the yearly savings at both ends. Sorted by the size of the swing,
+ * widest first.
+ */
+export const runTornado = (values: CalculatorInput, rangePercent: number) => {
+    const baseline = calculateCosts(values).yearlySavings;
+    const factor = rangePercent / 100;
+
+    const bars: TornadoBar[] = getVariableInputs(values)
+        .map(({ field, label }) => ({
+            field,
+            label,
+            low: calculateCosts(adjust(values, field, values[field] * (1 - factor))).yearlySavings,
+            high: calculateCosts(adjust(values, field, values[field] * (1 + factor))).yearlySavings,
+        }))
+        .sort((a, b) => Math.abs(b.high - b.low) - Math.abs(a.high - a.low));
+
+    return { baseline, bars };
+};
+
+export interface HeatmapCell {
+    x: number;
+    y: number;
+    yearlySavings: number;
+}
+
+/** Yearly savings over a steps × steps grid of two inputs, each varied by ±rangePercent */
+export const runHeatmap = (
+    values: CalculatorInput,
+    xField: CalculatorField,
+    yField: CalculatorField,
+    rangePercent: number,
+    steps = 9
+): HeatmapCell[] => {
+    const axis = (field: CalculatorField) => Array.from({ length: steps }, (_, i) => {
+        const fraction = steps === 1 ? 0 : (i / (steps - 1)) * 2 - 1; // -1 to 1
+        return values[field] * (1 + (fraction * rangePercent) / 100);
+    });
+
+    return axis(yField).flatMap(y =>
+        axis(xField).map(x => {
+            const adjusted = adjust(adjust(values, xField, x), yField, y);
+            return { x: adjusted[xField], y: adjusted[yField], yearlySavings: calculateCosts(adjusted).yearlySavings };
+        })
+    );
+};
@@ -0,0 +1,69 @@
+import { formatCurrency } from './locale';
+import { OWNERSHIP_MODELS } from './ownership';
+import { POWERTRAINS } from './powertrain';
+import { TAX_PROFILES } from './tax';
+import { CalculationResult, CalculatorInput } from './types';
+
+/** Plain-language sentences describing a calculation, for reports and exports */
+export const summarizeResult = (values: CalculatorInput, result: CalculationResult): string[] => {
+    const money = (value: number) => formatCurrency(value, values.locale);
+    const powertrain = POWERTRAINS[result.powertrain].label.toLowerCase();
+    const vehicle = result.ownership === 'two-wheeler' ? 'two-wheeler' : 'car';
+    const finalYear = result.projection[result.projection.length - 1];
+    const summary: string[] = [];
+
+    summary.push(
+        `${OWNERSHIP_MODELS[result.ownership].describe(powertrain)} costs about ${money(result.totalCarCost)} a month (${money(result.totalCarCost * 12)} a year), ` +
+        `against ${money(result.totalCommuteCost)} a month (${money(result.totalCommuteCost * 12)} a year) for public transport.`
+    );
+    summary.push(result.monthlySavings >= 0
+        ? `The ${vehicle} works out cheaper by about ${money(result.monthlySavings)} a month.`
+        : `Public transport works out cheaper by about ${money(-result.monthlySavings)} a month, or ${money(-result.yearlySavings)} a year.`);
+
+    if (result.breakEvenYear !== null) {
+        summary.push(
+            `Counting the upfront payment, price growth and resale value, the two options break even after ${result.breakEvenYear.toFixed(1)} years.`
+        );
+    } else if (finalYear) {
+        const carCheaper = finalYear.cumulativeCar < finalYear.cumulativeCommute;
+        summary.push(
+            `Over ${finalYear.year} years, ${carCheaper ? `the ${vehicle}` : 'public transport'} stays cheaper throughout: ` +
+            `${money(finalYear.cumulativeCar)} in total for the ${vehicle} against ${money(finalYear.cumulativeCommute)} for public transport.`
+        );
+    }
+
+    if (result.loanAmount > 0) {
+        summary.push(
+            `The car loan of ${money(result.loanAmount)} is repaid at ${money(result.monthlyEmi)} a month and costs ` +
+            `${money(result.totalInterest)} in interest over its term.`
+        );
+    }
+
+    if (values.valueOfTime > 0 && (result.carCommuteHoursPerYear > 0 || result.transitCommuteHoursPerYear > 0)) {
+        summary.push(
+            `Valuing commuting time at ${money(values.valueOfTime)} an hour, the ${vehicle} costs ${money(result.generalizedCarCost)} ` +
+            `a month and public transport ${money(result.generalizedCommuteCost)}.`
+        );
+    }
+
+    if (result.taxSaving > 0) {
+        summary.push(
+            `As ${result.taxProfile === 'self-employed' ? 'a self-employed user' : 'part of an employer car lease'}, about ` +
+            `${money(result.taxSaving)} a month is saved in income tax, and the ${vehicle} figures are after that saving. ` +
+            TAX_PROFILES[result.taxProfile].description
+        );
+    }
+
+    if (result.carTransitCost > 0) {
+        summary.push(
+            `The ${vehicle} figure includes ${money(result.carTransitCost)} a month of public transport on the days it stays at home.`
+        );
+    }
+
+    summary.push(
+        `Travelling with the ${vehicle} emits about ${result.yearlyEmissions.toFixed(2)} metric tons of CO2 a year, ` +
+        `against ${result.transitEmissions.toFixed(2)} metric tons using public transport alone.`
+    );
+
+    return summary;
+};
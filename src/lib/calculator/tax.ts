@@ -0,0 +1,69 @@
+import { CalculatorField, CalculatorInput, TaxProfile } from './types';
+
+interface TaxProfileInfo {
+    label: string;
+    description: string;
+}
+
+export const TAX_PROFILES: Record<TaxProfile, TaxProfileInfo> = {
+    none: {
+        label: 'No Tax Benefit',
+        description: 'Car costs are paid from income that has already been taxed.',
+    },
+    'employer-lease': {
+        label: 'Employer Car Lease',
+        description: 'The lease and running costs are paid from pre-tax salary, and the car is taxed as a perquisite instead.',
+    },
+    'self-employed': {
+        label: 'Self-Employed',
+        description: 'The business share of depreciation, fuel, interest and upkeep is claimed as an expense.',
+    },
+};
+
+export const isTaxProfile = (value: unknown): value is TaxProfile =>
+    typeof value === 'string' && Object.hasOwn(TAX_PROFILES, value);
+
+const PROFILE_FIELDS: Record<TaxProfile, CalculatorField[]> = {
+    none: [],
+    'employer-lease': ['incomeTaxRate', 'leasePerquisite'],
+    'self-employed': ['incomeTaxRate', 'businessUseShare'],
+};
+
+const TAX_FIELDS: CalculatorField[] = ['incomeTaxRate', 'businessUseShare', 'leasePerquisite'];
+
+export const isFieldUsedByTaxProfile = (field: CalculatorField, taxProfile: TaxProfile) =>
+    !TAX_FIELDS.includes(field) || PROFILE_FIELDS[taxProfile].includes(field);
+
+export const getTaxRequiredFields = (taxProfile: TaxProfile): CalculatorField[] =>
+    PROFILE_FIELDS[taxProfile].filter(field => field !== 'leasePerquisite');
+
+/** Monthly car costs that can count against taxable income */
+export interface DeductibleCosts {
+    fuel: number;
+    depreciation: number;
+    interest: number;
+    upkeep: number; // maintenance, repairs and insurance
+    fees: number; // subscription, lease or car-sharing
+}
+
+/**
+ * Monthly income tax saved. An employer lease pays the fee and running
+ * costs from pre-tax salary but adds the perquisite to taxable income.
+ * The self-employed deduct the business share of the car's costs, with its
+ * loss in value standing in for tax depreciation.
+ */
+export const calculateTaxSaving = (values: CalculatorInput, costs: DeductibleCosts) => {
+    const rate = Math.min(Math.max(values.incomeTaxRate, 0), 100) / 100;
+
+    switch (values.taxProfile) {
+        case 'employer-lease':
+            return Math.max(costs.fees + costs.fuel + costs.upkeep - values.leasePerquisite, 0) * rate;
+        case 'self-employed': {
+            const businessShare = Math.min(Math.max(values.businessUseShare, 0), 100) / 100;
+            const deductible = costs.fuel + costs.depreciation + costs.interest + costs.upkeep + costs.fees;
+            return deductible * businessShare * rate;
+        }
+        default:
+            return 0;
+    }
+};
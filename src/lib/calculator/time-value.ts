@@ -0,0 +1,32 @@
+import { CommuteDays } from './commute';
+import { CalculatorInput } from './types';
+
+const yearlyHours = (daysPerMonth: number, minutesOneWay: number) => (daysPerMonth * 2 * 12 * minutesOneWay) / 60;
+
+/**
+ * Hours spent commuting per year by each option, and the monthly generalized
+ * cost: money spent plus time spent valued at the user's hourly rate. The
+ * productive share of transit time (reading, working) is not counted as lost,
+ * including on the days a car owner leaves the car at home.
+ */
+export const calculateTimeValue = (
+    values: CalculatorInput,
+    days: CommuteDays,
+    monthlyCarCosts: number,
+    monthlyCommuteCosts: number
+) => {
+    const drivingHoursPerYear = yearlyHours(days.carDays, values.carTravelMinutes);
+    const carOwnerTransitHoursPerYear = yearlyHours(days.transitDays, values.transitTravelMinutes);
+    const transitCommuteHoursPerYear = yearlyHours(days.officeDays, values.transitTravelMinutes);
+
+    const lostShare = 1 - Math.min(Math.max(values.transitProductiveShare, 0), 100) / 100;
+    const carTimeCost = ((drivingHoursPerYear + carOwnerTransitHoursPerYear * lostShare) / 12) * values.valueOfTime;
+    const transitTimeCost = ((transitCommuteHoursPerYear * lostShare) / 12) * values.valueOfTime;
+
+    return {
+        carCommuteHoursPerYear: drivingHoursPerYear + carOwnerTransitHoursPerYear,
+        transitCommuteHoursPerYear,
+        generalizedCarCost: monthlyCarCosts + carTimeCost,
+        generalizedCommuteCost: monthlyCommuteCosts + transitTimeCost,
+    };
+};
@@ -0,0 +1,243 @@
+export const CALCULATOR_FIELDS = [
+    'carPrice',
+    'downPayment',
+    'loanTenure', // years
+    'interestRate', // % per annum
+    'fuelEfficiency', // km per liter or miles per gallon, or per kg for CNG
+    'fuelPrice', // per liter or gallon, or per kg for CNG
+    'evConsumption', // kWh per 100 km or miles
+    'homeChargingTariff', // per kWh
+    'publicChargingTariff', // per kWh
+    'homeChargingShare', // % of charging done at home
+    'chargerInstallCost',
+    'gridCarbonIntensity', // kg CO2 per kWh
+    'electricShare', // % of distance a plug-in hybrid drives on battery power
+    'distanceToWork', // km or miles one way
+    'workingDaysPerMonth',
+    'carDaysPerWeek', // days driven to work in a typical week
+    'transitDaysPerWeek', // days on public transport in a week when you own the car
+    'wfhDaysPerWeek', // days worked from home
+    'leisureDistance', // km or miles per month driven outside the commute
+    'maintenanceCosts', // monthly
+    'maintenancePerDistance', // per km or mile driven, on top of the monthly amount
+    'serviceIntervalDistance', // km or miles between scheduled services
+    'serviceIntervalMonths', // months between scheduled services, whichever comes first
+    'serviceCost', // per scheduled service
+    'tyreLife', // km or miles per set of tyres
+    'tyreCost', // per set
+    'brakeLife', // km or miles per set of brake pads
+    'brakeCost', // per set
+    'batteryLifeYears', // years per 12V battery
+    'batteryCost',
+    'warrantyYears', // from when the car was new
+    'postWarrantyIncrease', // % more for each service and part once out of warranty
+    'carAgeYears', // age of a used car when bought
+    'repairCostPerYearOfAge', // expected yearly repairs for each year of a used car's age
+    'subscriptionFee', // monthly, including insurance and maintenance
+    'subscriptionUpfront', // one-off joining fee or non-refundable deposit
+    'sharingHourlyRate', // per hour booked
+    'sharingHoursPerMonth',
+    'sharingDistanceRate', // per km or mile driven, on top of fuel
+    'insuranceCosts', // yearly
+    'parkingCosts', // monthly
+    'tollCosts', // monthly
+    'trafficFines', // monthly
+    'resaleValue',
+    'resaleYears',
+    'depreciationPerDistance', // resale value lost per km or mile driven
+    'depreciationRate', // % of the remaining value lost each year, for declining balance
+    'publicTransportCosts', // monthly
+    'cabDaysPerMonth',
+    'cabFarePerDay', // round trip
+    'carTravelMinutes', // door to door, one way
+    'transitTravelMinutes', // door to door, one way
+    'valueOfTime', // per hour
+    'transitProductiveShare', // % of transit time that is productive
+    'fuelInflation', // % per year
+    'transitInflation', // % per year
+    'maintenanceInflation', // % per year
+    'insuranceDecline', // % per year
+    'investmentReturn', // % per year
+    'incomeTaxRate', // marginal %, including any surcharge and cess
+    'businessUseShare', // % of driving that is for business
+    'leasePerquisite', // monthly taxable value of an employer-leased car
+] as const;
+
+export type CalculatorField = typeof CALCULATOR_FIELDS[number];
+
+export type Powertrain = 'petrol' | 'diesel' | 'cng' | 'ev' | 'hybrid';
+
+/** How the vehicle is paid for; every model is compared against commuting by public transport */
+export type OwnershipModel = 'new' | 'used' | 'subscription' | 'two-wheeler' | 'car-sharing';
+
+/** How the car's resale value falls with age */
+export type DepreciationModel = 'straight-line' | 'declining-balance' | 'segment';
+
+export type VehicleSegment = 'hatchback' | 'sedan' | 'suv' | 'luxury' | 'electric' | 'two-wheeler';
+
+/** Who can set car costs against income tax */
+export type TaxProfile = 'none' | 'employer-lease' | 'self-employed';
+
+export type CommuteMode = 'metro' | 'bus' | 'train' | 'auto' | 'cab' | 'other';
+
+export type FareType = 'per-trip' | 'monthly-pass';
+
+export type CurrencyCode = 'INR' | 'GBP' | 'USD' | 'EUR';
+
+/** Indian grouping uses thousands, lakhs and crores; Western uses thousands, millions and billions */
+export type NumberSystem = 'indian' | 'western';
+
+/** Metric is km and liters, UK is miles with imperial MPG and fuel priced per liter, US is miles and US gallons */
+export type UnitSystem = 'metric' | 'uk' | 'us';
+
+/** How amounts are shown and which units the inputs are entered in */
+export interface LocaleSettings {
+    currency: CurrencyCode;
+    numberSystem: NumberSystem;
+    units: UnitSystem;
+}
+
+export const COMMUTE_LEG_FIELDS = ['cost', 'distance', 'tripsPerDay'] as const;
+
+export type CommuteLegField = typeof COMMUTE_LEG_FIELDS[number];
+
+/** One leg of the public transport commute, e.g. a metro pass or an auto to the station */
+export interface CommuteLeg {
+    id: string;
+    mode: CommuteMode;
+    fareType: FareType;
+    cost: number; // per trip, or per month for a pass
+    distance: number; // km or miles per trip
+    tripsPerDay: number;
+}
+
+export type CommuteLegValues = Omit<CommuteLeg, CommuteLegField> & Record<CommuteLegField, string>;
+
+/** Raw form state, exactly as typed by the user */
+export type CalculatorFormValues = Record<CalculatorField, string> & {
+    powertrain: Powertrain;
+    ownership: OwnershipModel;
+    taxProfile: TaxProfile;
+    depreciationModel: DepreciationModel;
+    vehicleSegment: VehicleSegment;
+    commuteLegs: CommuteLegValues[];
+    locale: LocaleSettings;
+};
+
+/** Parsed numeric inputs consumed by the cost engine */
+export type CalculatorInput = Record<CalculatorField, number> & {
+    powertrain: Powertrain;
+    ownership: OwnershipModel;
+    taxProfile: TaxProfile;
+    depreciationModel: DepreciationModel;
+    vehicleSegment: VehicleSegment;
+    commuteLegs: CommuteLeg[];
+    locale: LocaleSettings;
+};
+
+/** The choices that decide which fields a scenario uses */
+export type FieldContext = Pick<CalculatorInput, 'powertrain' | 'ownership' | 'taxProfile' | 'depreciationModel'>;
+
+export type CommuteLegErrorKey = `commuteLegs.${number}.${CommuteLegField}`;
+
+/** Choices outside the numeric fields, which only a shared link can set to something unknown */
+export const SETTING_FIELDS = [
+    'powertrain', 'ownership', 'taxProfile', 'depreciationModel', 'vehicleSegment',
+    'locale.currency', 'locale.numberSystem', 'locale.units',
+] as const;
+
+export type SettingField = typeof SETTING_FIELDS[number];
+
+export type FormErrors = Partial<Record<CalculatorField | CommuteLegErrorKey | SettingField, string>>;
+
+export interface CommuteCostItem {
+    label: string;
+    monthlyCost: number;
+}
+
+export interface AmortizationRow {
+    month: number;
+    emi: number;
+    principal: number;
+    interest: number;
+    balance: number;
+}
+
+/** A service or part replacement due under the maintenance schedule */
+export interface MaintenanceEvent {
+    /** Months after buying the car */
+    month: number;
+    /** Distance driven since buying the car, in km or miles */
+    odometer: number;
+    item: string;
+    /** At today's prices */
+    cost: number;
+    underWarranty: boolean;
+}
+
+export interface ProjectionPoint {
+    year: number;
+    carCost: number;
+    /** Maintenance paid in the year, included in the car's cost */
+    maintenanceCost: number;
+    commuteCost: number;
+    cumulativeCar: number;
+    cumulativeCommute: number;
+}
+
+/** Monthly figures unless the name says otherwise */
+export interface CalculationResult {
+    totalCarCost: number;
+    totalCommuteCost: number;
+    commuteBreakdown: CommuteCostItem[];
+    monthlySavings: number;
+    yearlySavings: number;
+    powertrain: Powertrain;
+    ownership: OwnershipModel;
+    taxProfile: TaxProfile;
+    /** Fuel or electricity consumed per month, in the powertrain's energy unit */
+    energyUsed: number;
+    /** kWh charged from the grid per month, by an EV or a plug-in hybrid */
+    electricityUsed: number;
+    fuelCosts: number;
+    chargerCost: number;
+    maintenanceCost: number;
+    insuranceCost: number;
+    depreciationCost: number;
+    /** Expected resale value when the car is sold, after any mileage loss */
+    resaleValue: number;
+    interestCost: number;
+    parkingCost: number;
+    tollCost: number;
+    fineCost: number;
+    /** Expected age-related repairs of a used car, averaged over ownership */
+    repairCost: number;
+    /** Subscription or lease fee, with any upfront fee spread over the term */
+    subscriptionCost: number;
+    /** Pay-per-use car-sharing or rental fees */
+    sharingCost: number;
+    /** Income tax saved each month through the tax profile, already taken off the car's total */
+    taxSaving: number;
+    /** Public transport on the days a car owner doesn't drive to work */
+    carTransitCost: number;
+    /** Distance driven per month, commuting and leisure, in km or miles */
+    distanceDriven: number;
+    loanAmount: number;
+    monthlyEmi: number;
+    totalInterest: number;
+    amortizationSchedule: AmortizationRow[];
+    /** Dated services and part replacements, empty when maintenance is a flat monthly figure */
+    maintenanceSchedule: MaintenanceEvent[];
+    projection: ProjectionPoint[];
+    breakEvenYear: number | null;
+    carCommuteHoursPerYear: number;
+    transitCommuteHoursPerYear: number;
+    /** Monthly money cost plus the value of time lost commuting */
+    generalizedCarCost: number;
+    generalizedCommuteCost: number;
+    /** Metric tons of CO2 per year with the car, including public transport on days it isn't driven */
+    yearlyEmissions: number;
+    transitEmissions: number;
+    /** Tons per year saved by taking public transport instead of driving */
+    emissionsAvoided: number;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FORM_VALUES } from './input';
+import { CalculatorFormValues } from './types';
+import { isValid, validateField, validateForm } from './validation';
+
+const formValues = (overrides: Partial<CalculatorFormValues> = {}): CalculatorFormValues => ({
+    ...EMPTY_FORM_VALUES,
+    carPrice: '1000000',
+    fuelEfficiency: '15',
+    fuelPrice: '100',
+    distanceToWork: '20',
+    workingDaysPerMonth: '22',
+    ...overrides,
+});
+
+describe('validateField', () => {
+    it('accepts an empty value and rejects text', () => {
+        expect(validateField('carPrice', '')).toBe('');
+        expect(validateField('carPrice', 'abc')).toBe('Value must be a number');
+    });
+
+    it('allows up to 31 working days', () => {
+        expect(validateField('workingDaysPerMonth', '31')).toBe('');
+        expect(validateField('workingDaysPerMonth', '32')).not.toBe('');
+        expect(validateField('workingDaysPerMonth', '0')).not.toBe('');
+    });
+
+    it('allows a zero distance to work', () => {
+        expect(validateField('distanceToWork', '0')).toBe('');
+        expect(validateField('distanceToWork', '-1')).toBe('Value cannot be negative');
+    });
+
+    it('accepts a resale value above the car price', () => {
+        expect(validateField('resaleValue', '1200000')).toBe('');
+    });
+
+    it('accepts crore-scale prices', () => {
+        expect(validateField('carPrice', '250000000')).toBe('');
+        expect(validateField('carPrice', '0')).toBe('Car price must be greater than 0');
+    });
+
+    it('accepts no loan but not one over 30 years', () => {
+        expect(validateField('loanTenure', '0')).toBe('');
+        expect(validateField('loanTenure', '31')).toBe('Loan tenure must be between 0 and 30 years');
+    });
+});
+
+describe('validateForm', () => {
+    it('passes a complete form', () => {
+        expect(isValid(validateForm(formValues()))).toBe(true);
+    });
+
+    it('requires the fields of the chosen powertrain', () => {
+        expect(validateForm(formValues({ fuelPrice: '' })).fuelPrice).toBe('This field is required');
+        const ev = validateForm(formValues({ powertrain: 'ev', fuelPrice: '', fuelEfficiency: '' }));
+        expect(ev.fuelPrice).toBeUndefined();
+        expect(ev.evConsumption).toBe('This field is required');
+    });
+
+    it('passes 31 working days and a zero distance', () => {
+        expect(isValid(validateForm(formValues({ workingDaysPerMonth: '31', distanceToWork: '0' })))).toBe(true);
+    });
+
+    it('rejects a down payment above the car price', () => {
+        expect(validateForm(formValues({ downPayment: '1500000' })).downPayment)
+            .toBe('Down payment cannot exceed the car price');
+    });
+
+    it('rejects a week split of more than 7 days', () => {
+        expect(validateForm(formValues({ carDaysPerWeek: '5', transitDaysPerWeek: '2', wfhDaysPerWeek: '2' })).wfhDaysPerWeek)
+            .toBeDefined();
+    });
+
+    it('requires charging details only for a hybrid driven partly on battery', () => {
+        expect(isValid(validateForm(formValues({ powertrain: 'hybrid' })))).toBe(true);
+
+        const errors = validateForm(formValues({ powertrain: 'hybrid', electricShare: '30' }));
+        expect(Object.keys(errors).sort()).toEqual(['evConsumption', 'homeChargingTariff']);
+        expect(validateForm(formValues({ powertrain: 'petrol', electricShare: '30' }))).toEqual({});
+    });
+});
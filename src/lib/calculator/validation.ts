@@ -0,0 +1,153 @@
+import {
+    CALCULATOR_FIELDS,
+    COMMUTE_LEG_FIELDS,
+    CalculatorField,
+    CalculatorFormValues,
+    CommuteLegField,
+    CommuteLegValues,
+    FormErrors,
+} from './types';
+import { parseFormValues } from './input';
+import { isFieldUsedByOwnership } from './ownership';
+import { getRequiredFields, isFieldApplicable } from './powertrain';
+
+export const validateField = (name: CalculatorField, value: string): string => {
+    if (value === '') return '';
+
+    const numValue = parseFloat(value);
+    if (isNaN(numValue)) return 'Value must be a number';
+
+    switch (name) {
+        case 'carPrice':
+            return numValue <= 0 ? 'Car price must be greater than 0' : '';
+        case 'fuelEfficiency':
+            return numValue <= 0 ? 'Fuel efficiency must be greater than 0' : '';
+        case 'fuelPrice':
+            return numValue <= 0 ? 'Fuel price must be greater than 0' : '';
+        case 'evConsumption':
+            return numValue <= 0 ? 'Energy consumption must be greater than 0' : '';
+        case 'homeChargingShare':
+            return numValue < 0 || numValue > 100 ? 'Home charging share must be between 0 and 100%' : '';
+        case 'electricShare':
+            return numValue < 0 || numValue > 100 ? 'Battery share must be between 0 and 100%' : '';
+        case 'gridCarbonIntensity':
+            return numValue < 0 || numValue > 2 ? 'Grid carbon intensity must be between 0 and 2 kg/kWh' : '';
+        case 'workingDaysPerMonth':
+            return numValue <= 0 || numValue > 31 ? 'Working days must be between 1 and 31' : '';
+        case 'carDaysPerWeek':
+        case 'transitDaysPerWeek':
+        case 'wfhDaysPerWeek':
+            return numValue < 0 || numValue > 7 ? 'Days per week must be between 0 and 7' : '';
+        case 'carAgeYears':
+            return numValue < 0 || numValue > 30 ? 'Car age must be between 0 and 30 years' : '';
+        case 'sharingHoursPerMonth':
+            return numValue < 0 || numValue > 744 ? 'Hours must be between 0 and 744 a month' : '';
+        case 'serviceIntervalMonths':
+            return numValue < 0 || numValue > 60 ? 'Service interval must be between 0 and 60 months' : '';
+        case 'batteryLifeYears':
+        case 'warrantyYears':
+            return numValue < 0 || numValue > 30 ? 'Years must be between 0 and 30' : '';
+        case 'postWarrantyIncrease':
+            return numValue < 0 || numValue > 500 ? 'Increase must be between 0 and 500%' : '';
+        case 'resaleYears':
+            return numValue <= 0 ? 'Years until resale must be greater than 0' : '';
+        case 'transitProductiveShare':
+            return numValue < 0 || numValue > 100 ? 'Productive share must be between 0 and 100%' : '';
+        case 'carTravelMinutes':
+        case 'transitTravelMinutes':
+            return numValue < 0 || numValue > 600 ? 'Travel time must be between 0 and 600 minutes' : '';
+        case 'cabDaysPerMonth':
+            return numValue < 0 || numValue > 31 ? 'Cab days must be between 0 and 31' : '';
+        case 'loanTenure':
+            return numValue < 0 || numValue > 30 ? 'Loan tenure must be between 0 and 30 years' : '';
+        case 'interestRate':
+            return numValue < 0 || numValue > 50 ? 'Interest rate must be between 0 and 50%' : '';
+        case 'incomeTaxRate':
+            return numValue < 0 || numValue > 60 ? 'Tax rate must be between 0 and 60%' : '';
+        case 'depreciationRate':
+            return numValue < 0 || numValue > 100 ? 'Depreciation must be between 0 and 100% a year' : '';
+        case 'businessUseShare':
+            return numValue < 0 || numValue > 100 ? 'Business use must be between 0 and 100%' : '';
+        case 'fuelInflation':
+        case 'transitInflation':
+        case 'maintenanceInflation':
+        case 'insuranceDecline':
+        case 'investmentReturn':
+            return numValue < 0 || numValue > 100 ? 'Rate must be between 0 and 100%' : '';
+        default:
+            return numValue < 0 ? 'Value cannot be negative' : '';
+    }
+};
+
+export const validateCommuteLegField = (name: CommuteLegField, value: string, leg: CommuteLegValues): string => {
+    if (value === '') {
+        if (name === 'cost') return 'Fare is required';
+        if (name === 'tripsPerDay' && leg.fareType === 'per-trip') return 'Trips per day is required';
+        return '';
+    }
+
+    const numValue = parseFloat(value);
+    if (isNaN(numValue)) return 'Value must be a number';
+
+    switch (name) {
+        case 'tripsPerDay':
+            return numValue <= 0 || numValue > 10 ? 'Trips per day must be between 1 and 10' : '';
+        default:
+            return numValue < 0 ? 'Value cannot be negative' : '';
+    }
+};
+
+/** Returns the errors for the whole form; an empty object means it is valid */
+export const validateForm = (values: CalculatorFormValues): FormErrors => {
+    const errors: FormErrors = {};
+
+    CALCULATOR_FIELDS.filter(name => isFieldApplicable(name, values)).forEach(name => {
+        const error = validateField(name, values[name]);
+        if (error) {
+            errors[name] = error;
+        }
+    });
+
+    values.commuteLegs.forEach((leg, index) => {
+        COMMUTE_LEG_FIELDS.forEach(field => {
+            const error = validateCommuteLegField(field, leg[field], leg);
+            if (error) {
+                errors[`commuteLegs.${index}.${field}`] = error;
+            }
+        });
+    });
+
+    // Check for empty required fields
+    getRequiredFields(values).forEach(field => {
+        if (!values[field]) {
+            errors[field] = 'This field is required';
+        }
+    });
+
+    // A plug-in hybrid's battery driving needs its electricity use and home tariff
+    if (values.powertrain === 'hybrid' && parseFloat(values.electricShare) > 0) {
+        (['evConsumption', 'homeChargingTariff'] as const).forEach(field => {
+            if (!values[field]) errors[field] = 'This field is required when part of the distance is driven on battery power';
+        });
+    }
+
+    // The down payment can't be more than the car itself
+    const carPrice = parseFloat(values.carPrice);
+    const downPayment = parseFloat(values.downPayment);
+    if (!errors.downPayment && isFieldUsedByOwnership('downPayment', values.ownership) && downPayment > carPrice) {
+        errors.downPayment = 'Down payment cannot exceed the car price';
+    }
+
+    // The week split needs at least one working day and can't exceed a week
+    if (!errors.carDaysPerWeek && !errors.transitDaysPerWeek && !errors.wfhDaysPerWeek) {
+        const { carDaysPerWeek, transitDaysPerWeek, wfhDaysPerWeek } = parseFormValues(values);
+        const daysPerWeek = carDaysPerWeek + transitDaysPerWeek + wfhDaysPerWeek;
+        if (daysPerWeek <= 0 || daysPerWeek > 7) {
+            errors.wfhDaysPerWeek = 'Car, public transport and work-from-home days must add up to between 1 and 7 per week';
+        }
+    }
+
+    return errors;
+};
+
+export const isValid = (errors: FormErrors) => Object.keys(errors).length === 0;
@@ -0,0 +1,3 @@
+/** Short random id for locally created records; not globally unique */
+export const createId = () =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
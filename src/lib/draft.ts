@@ -0,0 +1,25 @@
+import { CalculatorFormValues, EMPTY_FORM_VALUES } from '@/lib/calculator';
+
+const STORAGE_KEY = 'buy-vs-commute:draft';
+
+/** The form as it was last left, so a reload or going offline doesn't lose it */
+export const loadDraft = (): CalculatorFormValues | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!stored || typeof stored !== 'object') return null;
+        // Fill in fields added since the draft was saved
+        return { ...EMPTY_FORM_VALUES, ...stored };
+    } catch {
+        return null;
+    }
+};
+
+export const saveDraft = (values: CalculatorFormValues) => {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(values));
+    } catch {
+        // Saved on every edit, so full or blocked storage is ignored rather than breaking the form
+    }
+};
@@ -0,0 +1,85 @@
+import { CALCULATOR_FIELDS, CalculationResult, CalculatorInput, summarizeResult } from '@/lib/calculator';
+
+const EXPORT_VERSION = 1;
+
+const escapeCsv = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRows = (rows: (string | number | null)[][]) => rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+
+/** Inputs, the full result and a plain-language summary as pretty-printed JSON */
+export const buildJsonExport = (input: CalculatorInput, result: CalculationResult) =>
+    JSON.stringify(
+        {
+            version: EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            inputs: input,
+            result,
+            summary: summarizeResult(input, result),
+        },
+        null,
+        2
+    );
+
+/**
+ * Inputs and scalar results as section/field/value rows, followed by the
+ * yearly projection, the loan and the maintenance schedules as their own tables.
+ */
+export const buildCsvExport = (input: CalculatorInput, result: CalculationResult) => {
+    const rows: (string | number | null)[][] = [['Section', 'Field', 'Value']];
+
+    CALCULATOR_FIELDS.forEach(field => rows.push(['Input', field, input[field]]));
+    rows.push(['Input', 'powertrain', input.powertrain]);
+    rows.push(['Input', 'ownership', input.ownership]);
+    rows.push(['Input', 'taxProfile', input.taxProfile]);
+    rows.push(['Input', 'depreciationModel', input.depreciationModel]);
+    rows.push(['Input', 'vehicleSegment', input.vehicleSegment]);
+    Object.entries(input.locale).forEach(([key, value]) => rows.push(['Input', `locale.${key}`, value]));
+    input.commuteLegs.forEach((leg, index) => {
+        Object.entries(leg)
+            .filter(([key]) => key !== 'id')
+            .forEach(([key, value]) => rows.push(['Input', `commuteLegs.${index + 1}.${key}`, value]));
+    });
+
+    Object.entries(result).forEach(([key, value]) => {
+        if (typeof value === 'number' || typeof value === 'string' || value === null) {
+            rows.push(['Result', key, value]);
+        }
+    });
+    result.commuteBreakdown.forEach(item => rows.push(['Commute Breakdown', item.label, item.monthlyCost]));
+
+    const tables = [
+        toCsvRows(rows),
+        toCsvRows([
+            ['Year', 'Car Cost', 'Maintenance', 'Commute Cost', 'Cumulative Car', 'Cumulative Commute'],
+            ...result.projection.map(point => [
+                point.year, point.carCost, point.maintenanceCost, point.commuteCost, point.cumulativeCar, point.cumulativeCommute,
+            ]),
+        ]),
+    ];
+    if (result.amortizationSchedule.length > 0) {
+        tables.push(toCsvRows([
+            ['Month', 'EMI', 'Principal', 'Interest', 'Balance'],
+            ...result.amortizationSchedule.map(row => [row.month, row.emi, row.principal, row.interest, row.balance]),
+        ]));
+    }
+    if (result.maintenanceSchedule.length > 0) {
+        tables.push(toCsvRows([
+            ['Month', 'Odometer', 'Item', 'Cost', 'Under Warranty'],
+            ...result.maintenanceSchedule.map(event => [event.month, event.odometer, event.item, event.cost, String(event.underWarranty)]),
+        ]));
+    }
+    return tables.join('\n\n');
+};
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking straight away can cancel the download before the browser has read the file
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,127 @@
+import { CALCULATOR_FIELDS, CalculationResult, CalculatorFormValues, EMPTY_FORM_VALUES } from '@/lib/calculator';
+import { createId } from '@/lib/create-id';
+
+export interface HistoryEntry {
+    id: string;
+    createdAt: string;
+    values: CalculatorFormValues;
+    result: CalculationResult;
+}
+
+/** An input that differs between two runs, with each run's form value */
+export interface HistoryInputChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+const DB_NAME = 'buy-vs-commute';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+// Oldest runs are dropped beyond this, so the history doesn't grow without limit
+export const MAX_HISTORY_ENTRIES = 200;
+
+const openDatabase = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/** Runs `use` in one transaction on the history store; resolves with what its returned reader gives once committed */
+const withStore = async <T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => () => T) => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const read = use(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => {
+            db.close();
+            resolve(read());
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject(transaction.error);
+        };
+        // Quota errors and the like abort the transaction without an error event
+        transaction.onabort = () => {
+            db.close();
+            reject(transaction.error);
+        };
+    });
+};
+
+const isAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+/** Every stored run, newest first */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+    if (!isAvailable()) return [];
+    const entries = await withStore('readonly', store => {
+        const request = store.index('createdAt').getAll();
+        return () => request.result as HistoryEntry[];
+    });
+    // Fill in fields added since the run was stored
+    return entries
+        .map(entry => ({ ...entry, values: { ...EMPTY_FORM_VALUES, ...entry.values } }))
+        .reverse();
+};
+
+export const addHistoryEntry = async (values: CalculatorFormValues, result: CalculationResult) => {
+    const entry: HistoryEntry = { id: createId(), createdAt: new Date().toISOString(), values, result };
+    if (!isAvailable()) return entry;
+
+    await withStore('readwrite', store => {
+        store.add(entry);
+        const keys = store.index('createdAt').getAllKeys();
+        keys.onsuccess = () => {
+            keys.result.slice(0, Math.max(keys.result.length - MAX_HISTORY_ENTRIES, 0)).forEach(key => store.delete(key));
+        };
+        return () => undefined;
+    });
+    return entry;
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+    if (!isAvailable()) return;
+    await withStore('readwrite', store => {
+        store.delete(id);
+        return () => undefined;
+    });
+};
+
+export const clearHistory = async () => {
+    if (!isAvailable()) return;
+    await withStore('readwrite', store => {
+        store.clear();
+        return () => undefined;
+    });
+};
+
+/**
+ * Inputs that differ between two runs. Commute legs are compared as a whole,
+ * since legs added or removed shift the rest.
+ */
+export const diffHistoryInputs = (before: CalculatorFormValues, after: CalculatorFormValues): HistoryInputChange[] => {
+    const changes: HistoryInputChange[] = [];
+    const compare = (field: string, a: string, b: string) => {
+        if (a !== b) changes.push({ field, before: a, after: b });
+    };
+
+    (['ownership', 'powertrain', 'taxProfile', 'depreciationModel', 'vehicleSegment'] as const).forEach(field =>
+        compare(field, before[field], after[field])
+    );
+    CALCULATOR_FIELDS.forEach(field => compare(field, before[field], after[field]));
+    (['currency', 'numberSystem', 'units'] as const).forEach(key =>
+        compare(`locale.${key}`, before.locale[key], after.locale[key])
+    );
+
+    const describeLegs = (values: CalculatorFormValues) =>
+        values.commuteLegs.map(leg => `${leg.mode} ${leg.fareType} ${leg.cost} × ${leg.tripsPerDay}, ${leg.distance} each`).join('; ');
+    if (describeLegs(before) !== describeLegs(after)) {
+        changes.push({ field: 'commuteLegs', before: describeLegs(before), after: describeLegs(after) });
+    }
+
+    return changes;
+};
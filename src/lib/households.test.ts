@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { createHousehold, loadHouseholds, saveHouseholds } from './households';
+
+afterEach(() => window.localStorage.clear());
+
+describe('loadHouseholds', () => {
+    it('reads back saved households', () => {
+        const household = createHousehold('Home');
+        saveHouseholds([household]);
+        expect(loadHouseholds()).toEqual([household]);
+    });
+
+    it('skips stored entries that are not households', () => {
+        const household = createHousehold('Home');
+        window.localStorage.setItem('buy-vs-commute:households', JSON.stringify([
+            null,
+            'Home',
+            { id: 'a', name: 'No lists' },
+            { ...household, members: [null] },
+            { ...household, cars: {} },
+            household,
+        ]));
+        expect(loadHouseholds()).toEqual([household]);
+    });
+
+    it('fills in fields missing from a stored household', () => {
+        const household = createHousehold('Home');
+        window.localStorage.setItem('buy-vs-commute:households', JSON.stringify([
+            { ...household, members: [{ id: 'm' }], trips: [{ id: 't' }], cars: [{ id: 'c' }] },
+        ]));
+        const [loaded] = loadHouseholds();
+        expect(loaded.members[0]).toMatchObject({ id: 'm', carId: null, workingDaysPerMonth: '22' });
+        expect(loaded.trips[0]).toMatchObject({ id: 't', carId: null, distance: '' });
+        expect(loaded.cars[0]).toEqual({ id: 'c', name: '', scenarioId: null });
+    });
+
+    it('returns nothing for unreadable storage', () => {
+        window.localStorage.setItem('buy-vs-commute:households', '{not json');
+        expect(loadHouseholds()).toEqual([]);
+    });
+});
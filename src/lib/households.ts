@@ -0,0 +1,71 @@
+import { HouseholdMemberValues, HouseholdTripValues, createHouseholdMember, createHouseholdTrip } from '@/lib/calculator';
+import { createId } from '@/lib/create-id';
+
+export const MAX_HOUSEHOLD_CARS = 2;
+
+/** A car in the household, costed with a saved scenario's inputs or the form's when `scenarioId` is null */
+export interface HouseholdCarChoice {
+    id: string;
+    name: string;
+    scenarioId: string | null;
+}
+
+export interface Household {
+    id: string;
+    name: string;
+    members: HouseholdMemberValues[];
+    trips: HouseholdTripValues[];
+    cars: HouseholdCarChoice[];
+    updatedAt: string;
+}
+
+const STORAGE_KEY = 'buy-vs-commute:households';
+
+export const createHousehold = (name: string): Household => {
+    const car = { id: createId(), name: 'Car 1', scenarioId: null };
+    return {
+        id: createId(),
+        name,
+        members: [{ ...createHouseholdMember(createId(), 'Commuter 1'), carId: car.id }],
+        trips: [],
+        cars: [car],
+        updatedAt: new Date().toISOString(),
+    };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Members, trips and cars need at least an id to be told apart
+const isListOfItems = (value: unknown): value is { id: string }[] =>
+    Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string');
+
+const isHousehold = (value: unknown): value is Household =>
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    isListOfItems(value.members) &&
+    isListOfItems(value.trips) &&
+    isListOfItems(value.cars);
+
+export const loadHouseholds = (): Household[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(stored)) return [];
+        // Skip anything that isn't a household and fill in fields added since it was saved
+        return stored.filter(isHousehold).map(household => ({
+            ...household,
+            members: household.members.map(member => ({ ...createHouseholdMember(member.id, ''), ...member })),
+            trips: household.trips.map(trip => ({ ...createHouseholdTrip(trip.id), ...trip })),
+            cars: household.cars.map((car: Partial<HouseholdCarChoice> & { id: string }) => ({ name: '', scenarioId: null, ...car })),
+        }));
+    } catch {
+        return [];
+    }
+};
+
+export const saveHouseholds = (households: Household[]) => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(households));
+};
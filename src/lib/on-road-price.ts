@@ -0,0 +1,94 @@
+import { CalculatorFormValues, OwnershipModel, Powertrain } from '@/lib/calculator';
+import rules from '@/data/tax-rules.json';
+
+export interface GstSlab {
+    id: string;
+    label: string;
+    gst: number; // %
+    cess: number; // %
+}
+
+/** Road tax as a % of the price including GST, for vehicles priced up to `upTo` */
+export interface RoadTaxBand {
+    upTo: number | null;
+    rates: Record<Powertrain, number>;
+}
+
+export interface StateTaxRule {
+    id: string;
+    name: string;
+    registrationFee: number;
+    roadTax: RoadTaxBand[];
+    twoWheelerRoadTax: Record<Powertrain, number>;
+}
+
+export interface OnRoadInputs {
+    exShowroomPrice: number; // before GST and cess
+    slab: GstSlab;
+    roadTaxRate: number; // %
+    registrationFee: number;
+    insurance: number; // first year, paid at purchase
+}
+
+export interface OnRoadPrice {
+    lines: { label: string; amount: number }[];
+    /** Everything paid to own the car, which becomes the calculator's car price */
+    carPrice: number;
+    /** The dealer's on-road quote, which also includes the first year's insurance */
+    onRoadPrice: number;
+}
+
+// Indicative rates; states revise them often, so every figure can be overridden
+export const TAX_RULES_VERSION = `v${rules.version} (${rules.updated})`;
+export const GST_SLABS = rules.gstSlabs as GstSlab[];
+export const STATE_TAX_RULES = rules.states as StateTaxRule[];
+
+export const defaultGstSlab = (powertrain: Powertrain, ownership: OwnershipModel): GstSlab => {
+    const id = powertrain === 'ev' ? 'electric' : ownership === 'two-wheeler' ? 'two-wheeler' : 'small-car';
+    return GST_SLABS.find(slab => slab.id === id) ?? GST_SLABS[0];
+};
+
+/** The state's road tax rate for the vehicle, by its price including GST */
+export const getRoadTaxRate = (
+    state: StateTaxRule,
+    powertrain: Powertrain,
+    ownership: OwnershipModel,
+    priceWithGst: number
+) => {
+    if (ownership === 'two-wheeler') return state.twoWheelerRoadTax[powertrain];
+    const band = state.roadTax.find(item => item.upTo === null || priceWithGst <= item.upTo);
+    return band ? band.rates[powertrain] : 0;
+};
+
+export const priceWithGst = (exShowroomPrice: number, slab: GstSlab) =>
+    exShowroomPrice * (1 + (slab.gst + slab.cess) / 100);
+
+export const buildOnRoadPrice = ({ exShowroomPrice, slab, roadTaxRate, registrationFee, insurance }: OnRoadInputs): OnRoadPrice => {
+    const gst = (exShowroomPrice * slab.gst) / 100;
+    const cess = (exShowroomPrice * slab.cess) / 100;
+    const roadTax = ((exShowroomPrice + gst + cess) * roadTaxRate) / 100;
+    const carPrice = exShowroomPrice + gst + cess + roadTax + registrationFee;
+
+    return {
+        lines: [
+            { label: 'Price before GST', amount: exShowroomPrice },
+            { label: `GST (${slab.gst}%)`, amount: gst },
+            { label: `Compensation cess (${slab.cess}%)`, amount: cess },
+            { label: `Road tax (${roadTaxRate}%)`, amount: roadTax },
+            { label: 'Registration', amount: registrationFee },
+            { label: 'Insurance, first year', amount: insurance },
+        ].filter(line => line.amount > 0),
+        carPrice,
+        onRoadPrice: carPrice + insurance,
+    };
+};
+
+/**
+ * Fills in the car price and yearly insurance. Insurance stays a running
+ * cost rather than part of the price, so it isn't counted twice.
+ */
+export const applyOnRoadPrice = (values: CalculatorFormValues, price: OnRoadPrice, insurance: number): CalculatorFormValues => ({
+    ...values,
+    carPrice: String(Math.round(price.carPrice)),
+    insuranceCosts: insurance > 0 ? String(Math.round(insurance)) : values.insuranceCosts,
+});
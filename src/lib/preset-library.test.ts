@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FORM_VALUES } from '@/lib/calculator';
+import { CarPreset, CityPreset, applyCarPreset, applyCityPreset, resalePercentAt } from './preset-library';
+
+const car: CarPreset = {
+    id: 'test-car',
+    name: 'Test Car',
+    regionId: 'in',
+    powertrain: 'petrol',
+    price: 1000000,
+    mileage: 20,
+    insurance: 20000,
+    service: 1000,
+    resale3: 70,
+    resale5: 56,
+};
+
+const city: CityPreset = {
+    id: 'test-city',
+    name: 'Test City',
+    regionId: 'in',
+    fuelPrice: 104,
+    metroPass: 1500,
+    busPass: 1000,
+    parking: 2000,
+    homeChargingTariff: 9,
+    publicChargingTariff: 22,
+    gridCarbonIntensity: 0.71,
+};
+
+describe('resalePercentAt', () => {
+    it('matches the preset at 3 and 5 years and interpolates between', () => {
+        expect(resalePercentAt(car, 0)).toBe(100);
+        expect(resalePercentAt(car, 3)).toBe(70);
+        expect(resalePercentAt(car, 4)).toBe(63);
+        expect(resalePercentAt(car, 5)).toBe(56);
+    });
+
+    it('keeps losing the same share each year beyond 5 years', () => {
+        expect(resalePercentAt(car, 7)).toBeCloseTo(56 * 0.8);
+    });
+});
+
+describe('applyCarPreset', () => {
+    it("keeps the form's holding period and prices the resale for it", () => {
+        const values = applyCarPreset({ ...EMPTY_FORM_VALUES, resaleYears: '4' }, car);
+        expect(values.resaleYears).toBe('4');
+        expect(values.resaleValue).toBe('630000');
+    });
+
+    it('assumes 3 years when the form has none', () => {
+        const values = applyCarPreset(EMPTY_FORM_VALUES, car);
+        expect(values.resaleYears).toBe('3');
+        expect(values.resaleValue).toBe('700000');
+    });
+});
+
+describe('applyCityPreset', () => {
+    it('fills the petrol price for petrol cars', () => {
+        expect(applyCityPreset(EMPTY_FORM_VALUES, city, 'metro').fuelPrice).toBe('104');
+    });
+
+    it('leaves the fuel price alone for CNG cars', () => {
+        const values = applyCityPreset({ ...EMPTY_FORM_VALUES, powertrain: 'cng', fuelPrice: '76' }, city, 'bus');
+        expect(values.fuelPrice).toBe('76');
+        expect(values.publicTransportCosts).toBe('1000');
+    });
+
+    it('leaves the fuel price alone for diesel cars but fills it for hybrids', () => {
+        expect(applyCityPreset({ ...EMPTY_FORM_VALUES, powertrain: 'diesel', fuelPrice: '90' }, city, 'metro').fuelPrice).toBe('90');
+        expect(applyCityPreset({ ...EMPTY_FORM_VALUES, powertrain: 'hybrid', fuelPrice: '90' }, city, 'metro').fuelPrice).toBe('104');
+    });
+});
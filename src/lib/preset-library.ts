@@ -0,0 +1,149 @@
+import { CalculatorFormValues, Powertrain } from '@/lib/calculator';
+import { findRegion } from '@/lib/regions';
+import dataset from '@/data/preset-library.json';
+
+export interface CarPreset {
+    id: string;
+    name: string;
+    regionId: string;
+    powertrain: Powertrain;
+    price: number;
+    /** Rated efficiency in the region's units, or kWh per 100 km or miles for EVs */
+    mileage: number;
+    insurance: number; // yearly
+    service: number; // monthly
+    resale3: number; // % of price after 3 years
+    resale5: number; // % of price after 5 years
+    custom?: boolean;
+}
+
+export interface CityPreset {
+    id: string;
+    name: string;
+    regionId: string;
+    fuelPrice: number;
+    metroPass: number; // monthly
+    busPass: number; // monthly
+    parking: number; // monthly
+    homeChargingTariff: number;
+    publicChargingTariff: number;
+    gridCarbonIntensity: number;
+    custom?: boolean;
+}
+
+export type CarPresetField = Exclude<keyof CarPreset, 'id' | 'name' | 'regionId' | 'powertrain' | 'custom'>;
+export type CityPresetField = Exclude<keyof CityPreset, 'id' | 'name' | 'regionId' | 'custom'>;
+
+export const CAR_PRESET_FIELDS: { field: CarPresetField; label: string }[] = [
+    { field: 'price', label: 'Price' },
+    { field: 'mileage', label: 'Rated Mileage' },
+    { field: 'insurance', label: 'Yearly Insurance' },
+    { field: 'service', label: 'Monthly Service' },
+    { field: 'resale3', label: '3-Year Resale (%)' },
+    { field: 'resale5', label: '5-Year Resale (%)' },
+];
+
+export const CITY_PRESET_FIELDS: { field: CityPresetField; label: string }[] = [
+    { field: 'fuelPrice', label: 'Petrol Price' },
+    { field: 'metroPass', label: 'Metro/Rail Pass' },
+    { field: 'busPass', label: 'Bus Pass' },
+    { field: 'parking', label: 'Monthly Parking' },
+    { field: 'homeChargingTariff', label: 'Home Charging Tariff' },
+    { field: 'publicChargingTariff', label: 'Public Charging Tariff' },
+    { field: 'gridCarbonIntensity', label: 'Grid Carbon Intensity' },
+];
+
+export const PRESET_LIBRARY_VERSION = `v${dataset.version} (${dataset.updated})`;
+export const BUNDLED_CARS = dataset.cars as CarPreset[];
+export const BUNDLED_CITIES = dataset.cities as CityPreset[];
+
+/** User-added entries, kept in the browser alongside the bundled dataset */
+export interface PresetCatalogue {
+    cars: CarPreset[];
+    cities: CityPreset[];
+}
+
+const STORAGE_KEY = 'buy-vs-commute:catalogue';
+
+export const loadCatalogue = (): PresetCatalogue => {
+    if (typeof window === 'undefined') return { cars: [], cities: [] };
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+        return {
+            cars: Array.isArray(stored.cars) ? stored.cars : [],
+            cities: Array.isArray(stored.cities) ? stored.cities : [],
+        };
+    } catch {
+        return { cars: [], cities: [] };
+    }
+};
+
+export const saveCatalogue = (catalogue: PresetCatalogue) => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(catalogue));
+};
+
+/** Entries whose name or region contains every word of the query */
+export const searchPresets = <T extends { name: string; regionId: string }>(presets: T[], query: string): T[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return presets.filter(preset => {
+        const text = `${preset.name} ${findRegion(preset.regionId)?.label ?? ''}`.toLowerCase();
+        return words.every(word => text.includes(word));
+    });
+};
+
+// Kept for this long when the form doesn't say
+const DEFAULT_RESALE_YEARS = 3;
+
+/**
+ * Share of the price a car is worth after the given years. Runs straight
+ * from new to the 3-year and 5-year figures, and past 5 years keeps losing
+ * the same share each year as between them.
+ */
+export const resalePercentAt = (car: Pick<CarPreset, 'resale3' | 'resale5'>, years: number) => {
+    if (years <= 3) return 100 + ((car.resale3 - 100) * years) / 3;
+    if (years <= 5) return car.resale3 + ((car.resale5 - car.resale3) * (years - 3)) / 2;
+    return car.resale5 * Math.pow(car.resale5 / car.resale3, (years - 5) / 2);
+};
+
+/**
+ * Fills the form with a car's price, running costs and resale value, and
+ * switches to its region's currency and units. The resale value is for
+ * the years the form already plans to keep the car.
+ */
+export const applyCarPreset = (values: CalculatorFormValues, car: CarPreset): CalculatorFormValues => {
+    const plannedYears = parseFloat(values.resaleYears);
+    const years = plannedYears > 0 ? plannedYears : DEFAULT_RESALE_YEARS;
+    return {
+        ...values,
+        powertrain: car.powertrain,
+        carPrice: String(car.price),
+        [car.powertrain === 'ev' ? 'evConsumption' : 'fuelEfficiency']: String(car.mileage),
+        insuranceCosts: String(car.insurance),
+        maintenanceCosts: String(car.service),
+        resaleValue: String(Math.round((car.price * resalePercentAt(car, years)) / 100)),
+        resaleYears: String(years),
+        locale: findRegion(car.regionId)?.locale ?? values.locale,
+    };
+};
+
+/**
+ * Fills the form with a city's fuel, transit pass, parking and electricity
+ * costs. The fuel price is per litre or gallon of petrol, so the user's own
+ * price is kept for diesel, which costs differently, and for CNG, which is
+ * priced per kg.
+ */
+export const applyCityPreset = (
+    values: CalculatorFormValues,
+    city: CityPreset,
+    pass: 'metro' | 'bus'
+): CalculatorFormValues => ({
+    ...values,
+    fuelPrice: values.powertrain === 'cng' || values.powertrain === 'diesel' ? values.fuelPrice : String(city.fuelPrice),
+    publicTransportCosts: String(pass === 'metro' ? city.metroPass : city.busPass),
+    parkingCosts: String(city.parking),
+    homeChargingTariff: String(city.homeChargingTariff),
+    publicChargingTariff: String(city.publicChargingTariff),
+    gridCarbonIntensity: String(city.gridCarbonIntensity),
+    locale: findRegion(city.regionId)?.locale ?? values.locale,
+});
@@ -0,0 +1,15 @@
+import { LocaleSettings } from '@/lib/calculator';
+
+export interface Region {
+    id: string;
+    label: string;
+    locale: LocaleSettings;
+}
+
+export const REGIONS: Region[] = [
+    { id: 'in', label: 'India', locale: { currency: 'INR', numberSystem: 'indian', units: 'metric' } },
+    { id: 'uk', label: 'United Kingdom', locale: { currency: 'GBP', numberSystem: 'western', units: 'uk' } },
+    { id: 'us', label: 'United States', locale: { currency: 'USD', numberSystem: 'western', units: 'us' } },
+];
+
+export const findRegion = (id: string) => REGIONS.find(region => region.id === id);
@@ -0,0 +1,30 @@
+import { CalculatorFormValues, EMPTY_FORM_VALUES } from '@/lib/calculator';
+
+export interface Scenario {
+    id: string;
+    name: string;
+    values: CalculatorFormValues;
+    updatedAt: string;
+}
+
+const STORAGE_KEY = 'buy-vs-commute:scenarios';
+
+export const loadScenarios = (): Scenario[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(stored)) return [];
+        // Fill in fields added since the scenario was saved
+        return stored.map((scenario: Scenario) => ({
+            ...scenario,
+            values: { ...EMPTY_FORM_VALUES, ...scenario.values },
+        }));
+    } catch {
+        return [];
+    }
+};
+
+export const saveScenarios = (scenarios: Scenario[]) => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FORM_VALUES, validateForm } from '@/lib/calculator';
+import { decodeShareState, encodeShareState } from './share-state';
+
+describe('decodeShareState', () => {
+    it('round-trips the form, including negative values', () => {
+        const values = {
+            ...EMPTY_FORM_VALUES,
+            carPrice: '1000000',
+            distanceToWork: '-5',
+            powertrain: 'ev' as const,
+            locale: { currency: 'USD' as const, numberSystem: 'western' as const, units: 'us' as const },
+        };
+        const decoded = decodeShareState(encodeShareState({ values, viewMode: 'yearly', chartType: 'area' }));
+
+        expect(decoded.values).toEqual(values);
+        expect(decoded.viewMode).toBe('yearly');
+        expect(decoded.chartType).toBe('area');
+        // Kept so it can be corrected, but flagged by the form's validation
+        expect(decoded.errors.distanceToWork).toBe('Value cannot be negative');
+    });
+
+    it('reports values that are not numbers', () => {
+        const { values, errors } = decodeShareState('carPrice=12abc&legs=metro:trip:x:5:2');
+        expect(values.carPrice).toBe('');
+        expect(errors.carPrice).toBe('Value from the link is not a valid number');
+        expect(errors['commuteLegs.0.cost']).toBe('Value from the link is not a valid number');
+    });
+
+    it('reports unknown choices as errors and keeps the defaults', () => {
+        const { values, errors, hasValues } = decodeShareState(
+            'powertrain=steam&ownership=stolen&tax=none2&depreciation=magic&segment=tank&currency=XYZ&numbers=roman&units=cubits'
+        );
+
+        expect(hasValues).toBe(true);
+        expect(values.powertrain).toBe(EMPTY_FORM_VALUES.powertrain);
+        expect(values.locale).toEqual(EMPTY_FORM_VALUES.locale);
+        expect(Object.keys(errors).sort()).toEqual([
+            'depreciationModel', 'locale.currency', 'locale.numberSystem', 'locale.units',
+            'ownership', 'powertrain', 'taxProfile', 'vehicleSegment',
+        ]);
+        expect(errors.powertrain).toBe('"steam" from the link is not a known powertrain, so the default was used');
+    });
+
+    it('reports inherited object keys as unknown choices', () => {
+        const { values, errors } = decodeShareState(
+            'ownership=toString&powertrain=constructor&tax=__proto__&currency=valueOf&legs=toString:trip:20:5:2'
+        );
+
+        expect(values.ownership).toBe(EMPTY_FORM_VALUES.ownership);
+        expect(values.powertrain).toBe(EMPTY_FORM_VALUES.powertrain);
+        expect(values.commuteLegs[0].mode).toBe('other');
+        expect(errors.ownership).toBe('"toString" from the link is not a known ownership model, so the default was used');
+        expect(Object.keys(errors).sort()).toEqual(['locale.currency', 'ownership', 'powertrain', 'taxProfile']);
+        expect(() => validateForm(values)).not.toThrow();
+    });
+});
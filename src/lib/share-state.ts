@@ -0,0 +1,175 @@
+import {
+    CALCULATOR_FIELDS,
+    COMMUTE_LEG_FIELDS,
+    COMMUTE_MODE_LABELS,
+    CalculatorFormValues,
+    CommuteLegValues,
+    DEFAULT_LOCALE,
+    EMPTY_FORM_VALUES,
+    FormErrors,
+    SettingField,
+    isCurrencyCode,
+    isDepreciationModel,
+    isNumberSystem,
+    isOwnershipModel,
+    isPowertrain,
+    isTaxProfile,
+    isUnitSystem,
+    isVehicleSegment,
+    validateField,
+} from '@/lib/calculator';
+
+export type ViewMode = 'monthly' | 'yearly';
+export type ChartType = 'line' | 'area';
+
+export interface ShareState {
+    values: CalculatorFormValues;
+    viewMode: ViewMode;
+    chartType: ChartType;
+}
+
+const VIEW_PARAM = 'view';
+const CHART_PARAM = 'chart';
+const LEGS_PARAM = 'legs';
+const POWERTRAIN_PARAM = 'powertrain';
+const OWNERSHIP_PARAM = 'ownership';
+const TAX_PARAM = 'tax';
+const DEPRECIATION_PARAM = 'depreciation';
+const SEGMENT_PARAM = 'segment';
+const CURRENCY_PARAM = 'currency';
+const NUMBERS_PARAM = 'numbers';
+const UNITS_PARAM = 'units';
+
+// Commute legs are packed as "mode:fare:cost:distance:trips", separated by "|"
+const LEG_SEPARATOR = '|';
+const LEG_FIELD_SEPARATOR = ':';
+const FARE_CODES = { 'per-trip': 'trip', 'monthly-pass': 'pass' } as const;
+
+// Plain decimals, negative ones included, without exponents or separators
+const NUMBER_PATTERN = /^-?\d*\.?\d*$/;
+
+const encodeLeg = (leg: CommuteLegValues) =>
+    [leg.mode, FARE_CODES[leg.fareType], ...COMMUTE_LEG_FIELDS.map(field => leg[field])].join(LEG_FIELD_SEPARATOR);
+
+const decodeLegs = (raw: string, errors: FormErrors): CommuteLegValues[] =>
+    raw.split(LEG_SEPARATOR).map((packed, index) => {
+        const [mode, fare, ...numbers] = packed.split(LEG_FIELD_SEPARATOR);
+        const leg: CommuteLegValues = {
+            id: String(index + 1),
+            mode: Object.hasOwn(COMMUTE_MODE_LABELS, mode) ? mode as CommuteLegValues['mode'] : 'other',
+            fareType: fare === FARE_CODES['monthly-pass'] ? 'monthly-pass' : 'per-trip',
+            cost: '',
+            distance: '',
+            tripsPerDay: '',
+        };
+        COMMUTE_LEG_FIELDS.forEach((field, fieldIndex) => {
+            const value = (numbers[fieldIndex] ?? '').trim();
+            if (NUMBER_PATTERN.test(value)) {
+                leg[field] = value;
+            } else {
+                errors[`commuteLegs.${index}.${field}`] = 'Value from the link is not a valid number';
+            }
+        });
+        return leg;
+    });
+
+/** Serializes the calculator state into a query string, leaving out empty fields and defaults */
+export const encodeShareState = ({ values, viewMode, chartType }: ShareState): string => {
+    const params = new URLSearchParams();
+    CALCULATOR_FIELDS.forEach(field => {
+        if (values[field] !== '') params.set(field, values[field]);
+    });
+    if (values.powertrain !== 'petrol') params.set(POWERTRAIN_PARAM, values.powertrain);
+    if (values.ownership !== 'new') params.set(OWNERSHIP_PARAM, values.ownership);
+    if (values.taxProfile !== 'none') params.set(TAX_PARAM, values.taxProfile);
+    if (values.depreciationModel !== 'straight-line') params.set(DEPRECIATION_PARAM, values.depreciationModel);
+    if (values.vehicleSegment !== 'hatchback') params.set(SEGMENT_PARAM, values.vehicleSegment);
+    if (values.commuteLegs.length > 0) params.set(LEGS_PARAM, values.commuteLegs.map(encodeLeg).join(LEG_SEPARATOR));
+    if (values.locale.currency !== DEFAULT_LOCALE.currency) params.set(CURRENCY_PARAM, values.locale.currency);
+    if (values.locale.numberSystem !== DEFAULT_LOCALE.numberSystem) params.set(NUMBERS_PARAM, values.locale.numberSystem);
+    if (values.locale.units !== DEFAULT_LOCALE.units) params.set(UNITS_PARAM, values.locale.units);
+    if (viewMode !== 'monthly') params.set(VIEW_PARAM, viewMode);
+    if (chartType !== 'line') params.set(CHART_PARAM, chartType);
+    return params.toString();
+};
+
+/** The param's value if it is one of the choices, else null; an unknown value is recorded as an error on `field` */
+const decodeChoice = <T extends string>(
+    params: URLSearchParams,
+    param: string,
+    isChoice: (value: unknown) => value is T,
+    field: SettingField,
+    label: string,
+    errors: FormErrors
+): T | null => {
+    const raw = params.get(param);
+    if (raw === null || isChoice(raw)) return raw;
+    errors[field] = `"${raw}" from the link is not a known ${label}, so the default was used`;
+    return null;
+};
+
+/**
+ * Restores calculator state from a query string. Values that are not plain
+ * numbers and unknown choices are dropped, and everything kept is run
+ * through the form's validation so bad links show up as field errors.
+ */
+export const decodeShareState = (search: string): ShareState & { errors: FormErrors; hasValues: boolean } => {
+    const params = new URLSearchParams(search);
+    const values: CalculatorFormValues = { ...EMPTY_FORM_VALUES };
+    const errors: FormErrors = {};
+    let hasValues = false;
+
+    CALCULATOR_FIELDS.forEach(field => {
+        const raw = params.get(field);
+        if (raw === null || raw.trim() === '') return;
+
+        hasValues = true;
+        const value = raw.trim();
+        if (!NUMBER_PATTERN.test(value)) {
+            errors[field] = 'Value from the link is not a valid number';
+            return;
+        }
+
+        values[field] = value;
+        const error = validateField(field, value);
+        if (error) errors[field] = error;
+    });
+
+    const powertrain = decodeChoice(params, POWERTRAIN_PARAM, isPowertrain, 'powertrain', 'powertrain', errors);
+    if (powertrain) values.powertrain = powertrain;
+    const ownership = decodeChoice(params, OWNERSHIP_PARAM, isOwnershipModel, 'ownership', 'ownership model', errors);
+    if (ownership) values.ownership = ownership;
+    const taxProfile = decodeChoice(params, TAX_PARAM, isTaxProfile, 'taxProfile', 'tax profile', errors);
+    if (taxProfile) values.taxProfile = taxProfile;
+    const depreciationModel = decodeChoice(params, DEPRECIATION_PARAM, isDepreciationModel, 'depreciationModel', 'depreciation model', errors);
+    if (depreciationModel) values.depreciationModel = depreciationModel;
+    const vehicleSegment = decodeChoice(params, SEGMENT_PARAM, isVehicleSegment, 'vehicleSegment', 'vehicle segment', errors);
+    if (vehicleSegment) values.vehicleSegment = vehicleSegment;
+
+    const legs = params.get(LEGS_PARAM);
+    if (legs) {
+        hasValues = true;
+        values.commuteLegs = decodeLegs(legs, errors);
+    }
+
+    values.locale = {
+        currency: decodeChoice(params, CURRENCY_PARAM, isCurrencyCode, 'locale.currency', 'currency', errors) ?? DEFAULT_LOCALE.currency,
+        numberSystem: decodeChoice(params, NUMBERS_PARAM, isNumberSystem, 'locale.numberSystem', 'number format', errors) ?? DEFAULT_LOCALE.numberSystem,
+        units: decodeChoice(params, UNITS_PARAM, isUnitSystem, 'locale.units', 'unit system', errors) ?? DEFAULT_LOCALE.units,
+    };
+
+    // Any setting in the link counts, even one that couldn't be read, so its error is shown
+    const settingParams = [
+        POWERTRAIN_PARAM, OWNERSHIP_PARAM, TAX_PARAM, DEPRECIATION_PARAM, SEGMENT_PARAM,
+        CURRENCY_PARAM, NUMBERS_PARAM, UNITS_PARAM,
+    ];
+    if (settingParams.some(param => params.has(param))) hasValues = true;
+
+    return {
+        values,
+        viewMode: params.get(VIEW_PARAM) === 'yearly' ? 'yearly' : 'monthly',
+        chartType: params.get(CHART_PARAM) === 'area' ? 'area' : 'line',
+        errors,
+        hasValues,
+    };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseFuelLogCsv, parseTripJson } from './trip-log';
+
+describe('parseFuelLogCsv', () => {
+    it('reads currency symbols and thousands separators', () => {
+        const { entries, errors } = parseFuelLogCsv('Date,Odometer,Liters,Cost\n2025-01-01,"12,345",40.5,"₹4,050.75"');
+        expect(errors).toEqual([]);
+        expect(entries[0]).toMatchObject({ odometer: 12345, quantity: 40.5, cost: 4050.75 });
+    });
+
+    it('reads a decimal comma in a quoted cell or a semicolon-separated file', () => {
+        const quoted = parseFuelLogCsv('Date,Odometer,Liters,Cost\n2025-01-01,12000,"45,5","82,90"');
+        const semicolons = parseFuelLogCsv('Date;Odometer;Liters;Cost\n01/01/2025;12000;45,5;82,90');
+        [quoted, semicolons].forEach(({ entries, errors }) => {
+            expect(errors).toEqual([]);
+            expect(entries[0]).toMatchObject({ odometer: 12000, quantity: 45.5, cost: 82.9 });
+        });
+    });
+
+    it('skips rows with negative or unreadable numbers and names the cell', () => {
+        const { entries, errors } = parseFuelLogCsv(
+            'Date,Odometer,Liters,Cost\n2025-01-01,12000,-40,4000\n2025-01-08,12400,40,4x00\n2025-01-15,12800,40,4000'
+        );
+        expect(entries).toHaveLength(1);
+        expect(errors).toEqual([
+            'Row 2 was skipped because "-40" is not a valid quantity',
+            'Row 3 was skipped because "4x00" is not a valid cost',
+        ]);
+    });
+});
+
+describe('parseTripJson', () => {
+    it('measures trips from distances or points', () => {
+        const { trips, errors } = parseTripJson(JSON.stringify([
+            { start: '2025-01-06', distanceKm: 12.5 },
+            { start: '2025-01-07', points: [{ lat: 19.07, lon: 72.87 }, { lat: 19.08, lon: 72.87 }] },
+        ]));
+
+        expect(errors).toEqual([]);
+        expect(trips[0].distanceKm).toBe(12.5);
+        expect(trips[1].distanceKm).toBeCloseTo(1.11, 2);
+    });
+
+    it('skips trips with a point that has no coordinates instead of throwing', () => {
+        const { trips, errors } = parseTripJson(JSON.stringify([
+            { start: '2025-01-06', points: [{ lat: 19.07, lon: 72.87 }, null] },
+            { start: '2025-01-07', points: [{ lat: 19.07, lon: 72.87 }, { lat: '19.08', lon: 72.87 }] },
+            { start: '2025-01-08', distanceKm: 10 },
+        ]));
+
+        expect(trips).toHaveLength(1);
+        expect(errors).toEqual([
+            'Trip 1 was skipped because it has no start date or no readable distance',
+            'Trip 2 was skipped because it has no start date or no readable distance',
+        ]);
+    });
+
+    it('skips negative and non-finite distances', () => {
+        const { trips, errors } = parseTripJson('[{"start":"2025-01-06","distanceKm":-5},{"start":"2025-01-07","distanceMiles":1e400}]');
+
+        expect(trips).toEqual([]);
+        expect(errors).toHaveLength(2);
+    });
+});
@@ -0,0 +1,299 @@
+import { CalculatorField, UNIT_SYSTEMS, UnitSystem } from '@/lib/calculator';
+
+export interface FuelLogEntry {
+    date: Date;
+    odometer: number;
+    quantity: number; // liters or gallons, as on the receipt
+    cost: number;
+}
+
+export interface Trip {
+    date: Date;
+    distanceKm: number;
+}
+
+/** Values worked out from a log, with the steps that produced them */
+export interface Derivation {
+    values: Partial<Record<CalculatorField, string>>;
+    working: string[];
+}
+
+export interface ImportResult {
+    derivation: Derivation | null;
+    errors: string[];
+}
+
+const DAYS_PER_MONTH = 365.25 / 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WORKING_DAYS = 22;
+
+const round = (value: number, digits = 2) => String(Number(value.toFixed(digits)));
+
+/** Accepts ISO dates and day-first dates such as 15/03/2025 */
+const parseDate = (value: string): Date | null => {
+    const dayFirst = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    const date = dayFirst
+        ? new Date(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1]))
+        : new Date(value.trim());
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && quoted && line[i + 1] === '"') {
+            current += '"';
+            i++;
+        } else if (char === '"') {
+            quoted = !quoted;
+        } else if (char === delimiter && !quoted) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+/**
+ * Reads a number as written on a receipt, allowing a currency symbol, spaces,
+ * thousands separators ("12,345.6") and a decimal comma ("45,5"). A lone comma
+ * followed by three digits is taken as a thousands separator. Anything else,
+ * including negative numbers, gives NaN.
+ */
+const parseNumberCell = (value: string): number => {
+    const cleaned = value.replace(/[\s\p{Sc}]/gu, '');
+    if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned)) return Number(cleaned.replace(/,/g, ''));
+    if (/^\d+,\d+$/.test(cleaned)) return Number(cleaned.replace(',', '.'));
+    return /^\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : NaN;
+};
+
+// Header names recognised for each fuel log column. Cost is matched before
+// quantity so that a "Fuel Cost" column isn't taken for the fuel quantity.
+const FUEL_LOG_COLUMNS: Record<keyof FuelLogEntry, RegExp> = {
+    date: /date/,
+    odometer: /odo|reading|mileage/,
+    cost: /cost|amount|paid|total|price/,
+    quantity: /lit|gal|quantity|volume|fuel/,
+};
+
+/**
+ * Reads a CSV of fill-ups with a header row naming the date, odometer,
+ * quantity and cost columns, e.g. "Date,Odometer,Liters,Cost". Files that
+ * separate columns with semicolons, as with a decimal comma, are read too.
+ */
+export const parseFuelLogCsv = (text: string): { entries: FuelLogEntry[]; errors: string[] } => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) return { entries: [], errors: ['The CSV needs a header row and at least one fill-up'] };
+
+    const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+    const header = splitCsvLine(lines[0], delimiter).map(cell => cell.toLowerCase());
+    const columns = {} as Record<keyof FuelLogEntry, number>;
+    const errors: string[] = [];
+    (Object.keys(FUEL_LOG_COLUMNS) as (keyof FuelLogEntry)[]).forEach(key => {
+        const index = header.findIndex((cell, i) => FUEL_LOG_COLUMNS[key].test(cell) && !Object.values(columns).includes(i));
+        if (index === -1) errors.push(`No ${key} column found in the header`);
+        columns[key] = index;
+    });
+    if (errors.length > 0) return { entries: [], errors };
+
+    const entries: FuelLogEntry[] = [];
+    lines.slice(1).forEach((line, index) => {
+        const cells = splitCsvLine(line, delimiter);
+        const date = parseDate(cells[columns.date] ?? '');
+        if (!date) {
+            errors.push(`Row ${index + 2} was skipped because "${cells[columns.date] ?? ''}" is not a valid date`);
+            return;
+        }
+        const keys = ['odometer', 'quantity', 'cost'] as const;
+        const [odometer, quantity, cost] = keys.map(key => parseNumberCell(cells[columns[key]] ?? ''));
+        const invalid = keys.find((_, i) => isNaN([odometer, quantity, cost][i]));
+        if (invalid) {
+            errors.push(`Row ${index + 2} was skipped because "${cells[columns[invalid]] ?? ''}" is not a valid ${invalid}`);
+            return;
+        }
+        entries.push({ date, odometer, quantity, cost });
+    });
+    return { entries, errors };
+};
+
+/**
+ * Works out real-world efficiency, fuel price and daily distance from
+ * fill-ups, assuming the tank is filled up each time: the fuel bought after
+ * the first fill-up is what was burned to cover the distance since it.
+ */
+export const deriveFromFuelLog = (
+    entries: FuelLogEntry[],
+    units: UnitSystem,
+    workingDaysPerMonth: number
+): ImportResult => {
+    if (entries.length < 2) return { derivation: null, errors: ['At least two fill-ups are needed to measure distance'] };
+
+    const unitInfo = UNIT_SYSTEMS[units];
+    const sorted = [...entries].sort((a, b) => a.odometer - b.odometer);
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const distance = last.odometer - first.odometer;
+    const fuelBurned = sorted.slice(1).reduce((sum, entry) => sum + entry.quantity, 0);
+    const totalQuantity = sorted.reduce((sum, entry) => sum + entry.quantity, 0);
+    const totalCost = sorted.reduce((sum, entry) => sum + entry.cost, 0);
+    const days = Math.max(Math.round((last.date.getTime() - first.date.getTime()) / DAY_MS), 1);
+
+    if (distance <= 0 || fuelBurned <= 0) {
+        return { derivation: null, errors: ['The odometer readings must increase between fill-ups'] };
+    }
+
+    // Receipts show the volume fuel is priced in; UK efficiency is per imperial gallon
+    const efficiencyVolume = (fuelBurned * unitInfo.litersPerPriceVolume) / unitInfo.litersPerEfficiencyVolume;
+    const efficiency = distance / efficiencyVolume;
+    const pricePerUnit = totalCost / totalQuantity;
+    const dailyDistance = distance / days;
+    const workingDays = workingDaysPerMonth > 0 ? workingDaysPerMonth : DEFAULT_WORKING_DAYS;
+    const oneWayDistance = (dailyDistance * DAYS_PER_MONTH) / workingDays / 2;
+
+    return {
+        derivation: {
+            values: {
+                fuelEfficiency: round(efficiency),
+                fuelPrice: round(pricePerUnit),
+                distanceToWork: round(oneWayDistance, 1),
+            },
+            working: [
+                `${sorted.length} fill-ups from odometer ${first.odometer} to ${last.odometer}: ${round(distance, 1)} ${unitInfo.distance} over ${days} days`,
+                `Fuel bought after the first fill-up: ${round(fuelBurned)} ${unitInfo.fuelVolume}` +
+                    (unitInfo.fuelVolume === 'L' && unitInfo.efficiency === 'MPG' ? ` (${round(efficiencyVolume)} gallons)` : ''),
+                `Efficiency: ${round(distance, 1)} ÷ ${round(efficiencyVolume)} = ${round(efficiency)} ${unitInfo.efficiency}`,
+                `Price paid: ${round(totalCost)} ÷ ${round(totalQuantity)} ${unitInfo.fuelVolume} = ${round(pricePerUnit)} per ${unitInfo.fuelVolume}`,
+                `Average distance: ${round(dailyDistance, 1)} ${unitInfo.distance} a day, or ${round(dailyDistance * DAYS_PER_MONTH, 0)} a month`,
+                `Spread over ${workingDays} working days and two trips a day: ${round(oneWayDistance, 1)} ${unitInfo.distance} each way`,
+            ],
+        },
+        errors: [],
+    };
+};
+
+const haversineKm = (a: { lat: number; lon: number }, b: { lat: number; lon: number }) => {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(b.lat - a.lat);
+    const dLon = toRadians(b.lon - a.lon);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+const isPoint = (value: unknown): value is { lat: number; lon: number } =>
+    typeof value === 'object' && value !== null &&
+    isCoordinate((value as { lat?: unknown }).lat, 90) && isCoordinate((value as { lon?: unknown }).lon, 180);
+
+const pathKm = (points: { lat: number; lon: number }[]) =>
+    points.slice(1).reduce((sum, point, index) => sum + haversineKm(points[index], point), 0);
+
+/** Reads each <trk> of a GPX file as one trip, dated by its first timestamped point */
+export const parseGpx = (text: string): { trips: Trip[]; errors: string[] } => {
+    const trips: Trip[] = [];
+    const errors: string[] = [];
+    const tracks = text.match(/<trk[\s>][\s\S]*?<\/trk>/g) ?? [];
+
+    tracks.forEach((track, index) => {
+        const points = [...track.matchAll(/<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>|<trkpt\b([^>]*)\/>/g)].map(match => {
+            const attributes = match[1] ?? match[3] ?? '';
+            const time = (match[2] ?? '').match(/<time>([^<]+)<\/time>/)?.[1];
+            return {
+                lat: parseFloat(attributes.match(/lat="([^"]+)"/)?.[1] ?? ''),
+                lon: parseFloat(attributes.match(/lon="([^"]+)"/)?.[1] ?? ''),
+                time: time ? parseDate(time) : null,
+            };
+        }).filter(point => isPoint(point));
+
+        const date = points.find(point => point.time)?.time;
+        if (points.length < 2 || !date) {
+            errors.push(`Track ${index + 1} was skipped because it has too few points or no timestamps`);
+            return;
+        }
+        trips.push({ date, distanceKm: pathKm(points) });
+    });
+
+    if (tracks.length === 0) errors.push('No tracks found in the GPX file');
+    return { trips, errors };
+};
+
+/** A trip's distance in km, or NaN when it is missing, negative or has a point without coordinates */
+const tripDistanceKm = (item: { distanceKm?: unknown; distanceMiles?: unknown; points?: unknown } | null | undefined) => {
+    const distanceKm = typeof item?.distanceKm === 'number'
+        ? item.distanceKm
+        : typeof item?.distanceMiles === 'number'
+            ? item.distanceMiles * UNIT_SYSTEMS.us.kmPerDistanceUnit
+            : Array.isArray(item?.points) && item.points.every(isPoint) ? pathKm(item.points) : NaN;
+    return Number.isFinite(distanceKm) && distanceKm >= 0 ? distanceKm : NaN;
+};
+
+/**
+ * Reads a JSON array of trips, each with a start date and either a
+ * distanceKm, a distanceMiles or a list of { lat, lon } points.
+ */
+export const parseTripJson = (text: string): { trips: Trip[]; errors: string[] } => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { trips: [], errors: ['The file is not valid JSON'] };
+    }
+    const items = Array.isArray(data) ? data : (data as { trips?: unknown })?.trips;
+    if (!Array.isArray(items)) return { trips: [], errors: ['Expected an array of trips'] };
+
+    const trips: Trip[] = [];
+    const errors: string[] = [];
+    items.forEach((item, index) => {
+        const date = parseDate(String(item?.start ?? item?.date ?? ''));
+        const distanceKm = tripDistanceKm(item);
+        if (!date || isNaN(distanceKm)) {
+            errors.push(`Trip ${index + 1} was skipped because it has no start date or no readable distance`);
+            return;
+        }
+        trips.push({ date, distanceKm });
+    });
+    return { trips, errors };
+};
+
+/** Works out the daily commute distance and commuting days per month from logged trips */
+export const deriveFromTrips = (trips: Trip[], units: UnitSystem): ImportResult => {
+    if (trips.length === 0) return { derivation: null, errors: ['No trips to work from'] };
+
+    const unitInfo = UNIT_SYSTEMS[units];
+    const distanceByDay = new Map<string, number>();
+    trips.forEach(trip => distanceByDay.set(dayKey(trip.date), (distanceByDay.get(dayKey(trip.date)) ?? 0) + trip.distanceKm));
+
+    const times = trips.map(trip => trip.date.getTime());
+    const spanDays = Math.round((Math.max(...times) - Math.min(...times)) / DAY_MS) + 1;
+    const activeDays = distanceByDay.size;
+    const totalKm = [...distanceByDay.values()].reduce((sum, km) => sum + km, 0);
+    const dailyDistance = totalKm / activeDays / unitInfo.kmPerDistanceUnit;
+    // A short log is scaled to a month; a longer one is averaged over its months
+    const daysPerMonth = Math.min((activeDays / spanDays) * DAYS_PER_MONTH, 31);
+
+    return {
+        derivation: {
+            values: {
+                distanceToWork: round(dailyDistance / 2, 1),
+                workingDaysPerMonth: round(daysPerMonth, 0),
+            },
+            working: [
+                `${trips.length} trips on ${activeDays} different days over a ${spanDays}-day period`,
+                `Total distance: ${round(totalKm / unitInfo.kmPerDistanceUnit, 1)} ${unitInfo.distance}, ` +
+                    `or ${round(dailyDistance, 1)} ${unitInfo.distance} on each day driven`,
+                `Half of that each way: ${round(dailyDistance / 2, 1)} ${unitInfo.distance}`,
+                `Driving days: ${activeDays} of ${spanDays} days × ${round(DAYS_PER_MONTH, 1)} = ${round(daysPerMonth, 0)} days a month`,
+            ],
+        },
+        errors: [],
+    };
+};
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+    },
+    // Next.js compiles JSX itself, so tsconfig leaves it as is
+    esbuild: { jsx: 'automatic' },
+    test: {
+        // Component tests opt into a DOM with a `@vitest-environment jsdom` comment
+        include: ['src/**/*.test.ts', 'src/**/*.test.tsx'],
+    },
+});